@@ -0,0 +1,21 @@
+import { forbidden } from 'next/navigation';
+import { getAdminUser } from '@/lib/admin';
+
+// Checked per request - never prerender admin pages
+export const dynamic = 'force-dynamic';
+
+/**
+ * Admin pages (Observatory) - admins only; the API routes enforce the same check
+ */
+export default async function AdminLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  const admin = await getAdminUser();
+
+  // Responds 403 with app/forbidden.tsx
+  if (!admin) forbidden();
+
+  return children;
+}
@@ -4,15 +4,21 @@
  * POST /api/admin/observatory/agents - Create a new agent (returns auto-generated ID)
  * DELETE /api/admin/observatory/agents?id=xxx - Delete an agent
  * PATCH /api/admin/observatory/agents - Update agent metrics
+ *
+ * Admins only (lib/admin.ts) - everyone else gets 403.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin';
 import { createAgent, deleteAgent, updateAgentMetrics, addAgentMetric, getAgent } from '@/lib/eval';
 import { db } from '@/lib/db';
 import { llmCalls, llmEvaluations } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
 
 export async function POST(req: NextRequest) {
+  const access = await requireAdmin();
+  if (!access.ok) return access.response;
+
   try {
     const body = await req.json();
     const { name, description, model } = body;
@@ -39,6 +45,9 @@ export async function POST(req: NextRequest) {
 }
 
 export async function DELETE(req: NextRequest) {
+  const access = await requireAdmin();
+  if (!access.ok) return access.response;
+
   try {
     const { searchParams } = new URL(req.url);
     const id = searchParams.get('id');
@@ -57,6 +66,9 @@ export async function DELETE(req: NextRequest) {
 }
 
 export async function PATCH(req: NextRequest) {
+  const access = await requireAdmin();
+  if (!access.ok) return access.response;
+
   try {
     const body = await req.json();
     const { id, metrics, addMetric, resetData } = body;
@@ -2,14 +2,20 @@
  * Observatory API - View individual LLM calls
  *
  * GET /api/admin/observatory/calls - List recent calls with filtering
+ *
+ * Admins only (lib/admin.ts) - everyone else gets 403.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin';
 import { db } from '@/lib/db';
 import { llmCalls } from '@/lib/db/schema';
 import { desc, eq, and } from 'drizzle-orm';
 
 export async function GET(req: NextRequest) {
+  const access = await requireAdmin();
+  if (!access.ok) return access.response;
+
   const agentName = req.nextUrl.searchParams.get('agent');
   const limit = parseInt(req.nextUrl.searchParams.get('limit') || '20');
   const evaluated = req.nextUrl.searchParams.get('evaluated');
@@ -3,15 +3,21 @@
  *
  * GET /api/admin/observatory - Get all agents + their evaluation stats
  * POST /api/admin/observatory - Trigger evaluation for an agent
+ *
+ * Admins only (lib/admin.ts) - everyone else gets 403.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin';
 import { getEvaluationStats, triggerEvaluation, getAllAgents } from '@/lib/eval';
 import { db } from '@/lib/db';
 import { llmCalls, llmEvaluations } from '@/lib/db/schema';
 import { desc, eq, sql } from 'drizzle-orm';
 
 export async function GET(req: NextRequest) {
+  const access = await requireAdmin();
+  if (!access.ok) return access.response;
+
   const agentFilter = req.nextUrl.searchParams.get('agent');
 
   try {
@@ -110,6 +116,9 @@ export async function GET(req: NextRequest) {
 }
 
 export async function POST(req: NextRequest) {
+  const access = await requireAdmin();
+  if (!access.ok) return access.response;
+
   try {
     const body = await req.json();
     const agentId = body.agentId;
@@ -1,9 +1,52 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { getOrCreateUser } from '@/lib/credits';
+import { stripe, getCreditPackage } from '@/lib/stripe/client';
 
-// Stripe payments disabled for POC
+/**
+ * POST /api/credits/purchase
+ * Creates a Stripe Checkout Session for a credit package
+ *
+ * Body: { packageId }. Credits are added by the webhook (/api/webhooks/stripe) once
+ * the payment completes, not here.
+ */
 export async function POST(request: NextRequest) {
-  return NextResponse.json(
-    { error: 'Payments are disabled. Sign up to get free credits!' },
-    { status: 503 }
-  );
+  try {
+    const { userId: clerkId, sessionClaims } = await auth();
+    if (!clerkId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { packageId } = await request.json().catch(() => ({}));
+    const pkg = getCreditPackage(packageId);
+    if (!pkg) {
+      return NextResponse.json({ error: 'Unknown credit package' }, { status: 400 });
+    }
+
+    if (!stripe || !pkg.priceId) {
+      return NextResponse.json({ error: 'Payments are not configured' }, { status: 503 });
+    }
+
+    const user = await getOrCreateUser(clerkId, sessionClaims?.email as string || '');
+    const origin = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin;
+
+    const checkoutSession = await stripe.checkout.sessions.create({
+      mode: 'payment',
+      line_items: [{ price: pkg.priceId, quantity: 1 }],
+      customer_email: user.email.endsWith('@placeholder.com') ? undefined : user.email,
+      client_reference_id: user.id,
+      // Read back by the webhook to credit the right user with the right package
+      metadata: { userId: user.id, packageId: pkg.id, credits: String(pkg.credits) },
+      success_url: `${origin}/credits?success=true`,
+      cancel_url: `${origin}/credits`,
+    });
+
+    return NextResponse.json({ url: checkoutSession.url });
+  } catch (error) {
+    console.error('Create checkout session error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create checkout session' },
+      { status: 500 }
+    );
+  }
 }
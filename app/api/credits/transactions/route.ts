@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { db } from '@/lib/db';
+import { users } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { getCreditTransactions } from '@/lib/credits';
+
+/**
+ * GET /api/credits/transactions?limit=50
+ * The signed-in user's credit ledger, newest first
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { userId: clerkId } = await auth();
+    if (!clerkId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const [user] = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(eq(users.clerkId, clerkId))
+      .limit(1);
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const requested = Number(request.nextUrl.searchParams.get('limit'));
+    const limit = Number.isFinite(requested) && requested > 0 ? Math.min(requested, 200) : 50;
+
+    const transactions = await getCreditTransactions(user.id, limit);
+
+    return NextResponse.json({ transactions });
+  } catch (error) {
+    console.error('Get credit transactions error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get credit transactions' },
+      { status: 500 }
+    );
+  }
+}
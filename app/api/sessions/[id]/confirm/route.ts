@@ -0,0 +1,183 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { chatSessions, researchSessions } from '@/lib/db/schema';
+import { and, eq, ne } from 'drizzle-orm';
+import type { ResearchBrief } from '@/lib/agents/intake-agent';
+import { hasEnoughCredits } from '@/lib/credits';
+import { MIN_CREDITS_TO_START_RESEARCH } from '@/lib/metering';
+import { DEFAULT_BUDGET } from '@/lib/research/budget';
+import { availableSearchProviders } from '@/lib/research/search';
+import { enqueueResearchJob, hasActiveJob } from '@/lib/jobs/research-jobs';
+import { kickWorker } from '@/lib/jobs/worker';
+import { openEventLog } from '@/lib/sessions/events';
+import { requireSessionAccess } from '@/lib/sessions/access';
+import type { ConversationMessage } from '@/lib/sessions/conversation';
+
+const CANCELLED_MESSAGE = 'Okay, research cancelled. Let me know if you want to change the plan.';
+
+/**
+ * Undo a claimed start whose job couldn't be queued: the proposal is pending again and the
+ * session idle, so the user can retry
+ */
+async function releaseClaim(
+  sessionId: string,
+  messages: ConversationMessage[],
+  index: number,
+  proposal: ConversationMessage,
+  researchSessionId?: string
+): Promise<void> {
+  messages[index] = proposal;
+  await db
+    .update(chatSessions)
+    .set({ messages, status: 'active', updatedAt: new Date() })
+    .where(and(eq(chatSessions.id, sessionId), eq(chatSessions.status, 'researching')));
+  if (researchSessionId) {
+    await db
+      .update(researchSessions)
+      .set({ status: 'error', completedAt: new Date() })
+      .where(eq(researchSessions.id, researchSessionId));
+  }
+}
+
+/**
+ * POST /api/sessions/[id]/confirm
+ * Answer the pending research proposal (message metadata type 'research_confirmation')
+ *
+ * Body: { action: 'start' | 'cancel', maxCredits?: number, searchProvider?: SearchProviderName, approvePlan?: boolean }
+ * 'start' queues the run - optionally with a smaller credit budget, or in approval mode
+ * (each round's questions wait for the user, POST /api/sessions/[id]/plan) - and the client follows
+ * it on GET /api/sessions/[id]/stream. Nothing is charged before this.
+ */
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const params = await context.params;
+  const sessionId = params.id;
+
+  try {
+    const access = await requireSessionAccess(sessionId);
+    if (!access.ok) return access.response;
+    const { session } = access;
+
+    let body;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const { action, maxCredits, searchProvider, approvePlan } = body;
+    if (action !== 'start' && action !== 'cancel') {
+      return NextResponse.json({ error: 'action must be start or cancel' }, { status: 400 });
+    }
+
+    // Only the latest assistant message can be answered - anything older was superseded
+    const messages = session.messages as ConversationMessage[] || [];
+    const index = messages.findLastIndex(m => m.role === 'assistant');
+    const proposal = messages[index];
+    if (proposal?.metadata?.type !== 'research_confirmation' || proposal.metadata.status !== 'pending') {
+      return NextResponse.json({ error: 'No research waiting for confirmation' }, { status: 409 });
+    }
+
+    if (action === 'cancel') {
+      messages[index] = { ...proposal, metadata: { ...proposal.metadata, status: 'cancelled' } };
+      const cancelledMessage = {
+        role: 'assistant',
+        content: CANCELLED_MESSAGE,
+        timestamp: new Date().toISOString()
+      };
+
+      await db
+        .update(chatSessions)
+        .set({ messages: [...messages, cancelledMessage], updatedAt: new Date() })
+        .where(eq(chatSessions.id, sessionId));
+
+      return NextResponse.json({ status: 'cancelled', message: cancelledMessage });
+    }
+
+    if (!(await hasEnoughCredits(session.userId, MIN_CREDITS_TO_START_RESEARCH))) {
+      return NextResponse.json(
+        { error: `Research needs at least ${MIN_CREDITS_TO_START_RESEARCH} credits` },
+        { status: 402 }
+      );
+    }
+
+    if (await hasActiveJob(sessionId)) {
+      return NextResponse.json({ error: 'Research is already running in this session' }, { status: 409 });
+    }
+
+    if (searchProvider !== undefined && !availableSearchProviders().includes(searchProvider)) {
+      return NextResponse.json({ error: `Search provider not available: ${searchProvider}` }, { status: 400 });
+    }
+
+    // The user may shrink the budget, never raise it past the default cap
+    const brief: ResearchBrief = { ...(proposal.metadata.brief as ResearchBrief) };
+    if (typeof maxCredits === 'number' && maxCredits > 0) {
+      const cap = brief.budget?.maxCredits || DEFAULT_BUDGET.maxCredits;
+      brief.budget = {
+        ...brief.budget,
+        maxCredits: Math.max(MIN_CREDITS_TO_START_RESEARCH, Math.min(Math.round(maxCredits), cap))
+      };
+    }
+
+    if (searchProvider) brief.searchProvider = searchProvider;
+    if (approvePlan === true) brief.approvePlan = true;
+
+    // Flipping to 'researching' claims the run: of two concurrent confirms only one matches
+    messages[index] = { ...proposal, metadata: { ...proposal.metadata, status: 'accepted', brief } };
+    const claimed = await db
+      .update(chatSessions)
+      .set({ messages, status: 'researching', steeringNotes: [], planApproval: null, updatedAt: new Date() })
+      .where(and(eq(chatSessions.id, sessionId), ne(chatSessions.status, 'researching')))
+      .returning({ id: chatSessions.id });
+    if (claimed.length === 0) {
+      return NextResponse.json({ error: 'Research is already running in this session' }, { status: 409 });
+    }
+
+    // Nothing closes the run out until its job is queued - if queueing fails, undo the claim
+    // so the session isn't left 'researching' with no job behind it
+    let researchSessionId: string | undefined;
+    try {
+      const [researchSession] = await db
+        .insert(researchSessions)
+        .values({
+          userId: session.userId,
+          chatSessionId: sessionId,
+          objective: brief.objective,
+          successCriteria: brief.successCriteria ? JSON.stringify(brief.successCriteria) : null,
+          status: 'running'
+        })
+        .returning({ id: researchSessions.id });
+      researchSessionId = researchSession.id;
+
+      // The stream replays from research_started, so the client picks the run up from here
+      const events = await openEventLog(sessionId);
+      events.record({ type: 'research_started', objective: brief.objective, brief });
+      events.record({ type: 'research_queued' });
+      await events.flush(); // stored before the worker's first event
+
+      // Hand the run to the job worker - it outlives this request
+      await enqueueResearchJob({
+        chatSessionId: sessionId,
+        researchSessionId,
+        userId: session.userId,
+        brief
+      });
+    } catch (error) {
+      await releaseClaim(sessionId, messages, index, proposal, researchSessionId)
+        .catch(rollbackError => console.error('Failed to roll back research confirmation:', rollbackError));
+      throw error;
+    }
+    kickWorker();
+
+    return NextResponse.json({ status: 'started', brief });
+
+  } catch (error: unknown) {
+    console.error('Error confirming research:', error);
+    return NextResponse.json(
+      { error: 'Failed to confirm research', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -1,31 +1,45 @@
 import { NextRequest } from 'next/server';
-import { auth } from '@clerk/nextjs/server';
 import { db } from '@/lib/db';
-import { chatSessions, users, researchSessions } from '@/lib/db/schema';
+import { chatSessions } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
 import { analyzeUserMessage } from '@/lib/agents/intake-agent';
-import { runResearch } from '@/lib/research/run';
+import { finishPartialResearch } from '@/lib/research/run';
+import { estimateResearchCost } from '@/lib/research/estimate';
+import { availableSearchProviders } from '@/lib/research/search';
+import {
+  PARTIAL_RESULTS_OPTION,
+  FOLLOW_UP_QUESTION,
+  FOLLOW_UP_OPTIONS,
+  appendResearchResult
+} from '@/lib/sessions/conversation';
+import { openEventLog, formatSseEvent } from '@/lib/sessions/events';
+import { requireSessionAccess } from '@/lib/sessions/access';
+import { hasEnoughCredits } from '@/lib/credits';
+import { createMeter, MIN_CREDITS_FOR_MESSAGE, MIN_CREDITS_TO_START_RESEARCH } from '@/lib/metering';
 
 // export const maxDuration = 300; // 5 minutes
 
 /**
  * POST /api/sessions/[id]/message
  * Send a message to the session (SSE stream)
+ *
+ * A start_research decision only proposes the run with a cost estimate; the user starts it
+ * via POST /api/sessions/[id]/confirm, and progress streams on GET /api/sessions/[id]/stream.
+ * Progress events are numbered and stored (lib/sessions/events.ts) so they can be replayed.
  */
 export async function POST(
   req: NextRequest,
   context: { params: Promise<{ id: string }> }
 ) {
-  const { userId: clerkUserId } = await auth();
-
-  if (!clerkUserId) {
-    return new Response('Unauthorized', { status: 401 });
-  }
-
   const params = await context.params;
   const sessionId = params.id;
 
   try {
+    // Only the owner can drive a session (and spend their credits)
+    const access = await requireSessionAccess(sessionId);
+    if (!access.ok) return access.response;
+    const { session, user } = access;
+
     // Parse JSON with error handling
     let body;
     try {
@@ -47,32 +61,15 @@ export async function POST(
       );
     }
 
-    // Get session
-    const [session] = await db
-      .select()
-      .from(chatSessions)
-      .where(eq(chatSessions.id, sessionId));
-
-    if (!session) {
-      return new Response('Session not found', { status: 404 });
-    }
-
-    // Get user
-    const [user] = await db
-      .select()
-      .from(users)
-      .where(eq(users.id, session.userId));
-
-    if (!user) {
-      return new Response('User not found', { status: 404 });
-    }
-
     // Add user message to conversation
     const conversationHistory = session.messages as any[] || [];
 
     // Check if this is a response to a multi_choice_select
     const lastMessage = conversationHistory[conversationHistory.length - 1];
     const isResponseToOptions = lastMessage?.metadata?.type === 'multi_choice_select';
+    const wantsPartialResults = isResponseToOptions &&
+      lastMessage.metadata.stoppedResearch === true &&
+      userMessage === PARTIAL_RESULTS_OPTION;
 
     if (isResponseToOptions) {
       // Store with context about what was offered and selected
@@ -112,22 +109,57 @@ export async function POST(
       })
       .where(eq(chatSessions.id, sessionId));
 
+    const events = await openEventLog(sessionId);
+    const meter = createMeter({ userId: user.id, chatSessionId: sessionId }); // intake + partial results
+
     // Create SSE stream
     const encoder = new TextEncoder();
     let streamClosed = false;
     const stream = new ReadableStream({
       async start(controller) {
+        // Frames wait for their stored seq (the SSE id) and go out in the order sent
+        let sendQueue: Promise<void> = Promise.resolve();
         const sendEvent = (data: any) => {
-          if (streamClosed) return; // Guard against sending after close
-          try {
-            const message = `data: ${JSON.stringify(data)}\n\n`;
-            controller.enqueue(encoder.encode(message));
-          } catch (e) {
-            streamClosed = true; // Mark as closed if enqueue fails
-          }
+          const stored = events.record(data); // stored even if the client already went away
+          sendQueue = sendQueue.then(async () => {
+            const id = await stored;
+            if (streamClosed) return; // Guard against sending after close
+            try {
+              const message = formatSseEvent(data, id);
+              controller.enqueue(encoder.encode(message));
+            } catch (e) {
+              streamClosed = true; // Mark as closed if enqueue fails
+            }
+          });
         };
 
         try {
+          if (!(await hasEnoughCredits(user.id, MIN_CREDITS_FOR_MESSAGE))) {
+            sendEvent({ type: 'error', message: 'You\'re out of credits. Buy more on the Credits page to continue.' });
+            sendEvent({ type: 'complete' });
+            return;
+          }
+
+          // User stopped a run and asked for what we have so far - skip intake
+          if (wantsPartialResults) {
+            sendEvent({ type: 'brain_finishing' });
+            const partialResult = await finishPartialResearch(sessionId, { onUsage: meter.record });
+            const finalMessage = partialResult.output.finalAnswer;
+
+            const sources = partialResult.output.sources || [];
+            await appendResearchResult(sessionId, lastMessage.metadata.objective || '', finalMessage, sources);
+
+            sendEvent({
+              type: 'message',
+              message: finalMessage,
+              role: 'assistant',
+              metadata: { kind: 'research_result', sources }
+            });
+            sendEvent({ type: 'multi_choice_select', question: FOLLOW_UP_QUESTION, options: FOLLOW_UP_OPTIONS });
+            sendEvent({ type: 'complete' });
+            return;
+          }
+
           // Orchestrator analyzes the message
           sendEvent({
             type: 'analyzing',
@@ -138,7 +170,8 @@ export async function POST(
             userMessage,
             conversationHistory,
             session.brain || '',
-            (update) => sendEvent(update)
+            (update) => sendEvent(update),
+            { onUsage: meter.record }
           );
 
           // Save search to DB if performed
@@ -216,161 +249,31 @@ export async function POST(
               return;
             }
 
-            await db
-              .update(chatSessions)
-              .set({
-                status: 'researching',
-                updatedAt: new Date()
-              })
-              .where(eq(chatSessions.id, sessionId));
-
-            // Create research session record
-            const [researchSession] = await db
-              .insert(researchSessions)
-              .values({
-                userId: user.id,
-                chatSessionId: sessionId,
-                objective: researchBrief.objective,
-                successCriteria: researchBrief.successCriteria ? JSON.stringify(researchBrief.successCriteria) : null,
-                status: 'running'
-              })
-              .returning({ id: researchSessions.id });
-
-            const researchSessionId = researchSession.id;
-
-            // Send confirmation message
-            const startMessage = decision.message || "Starting research now...";
-
-            sendEvent({
-              type: 'message',
-              message: startMessage,
-              role: 'assistant'
-            });
-
-            conversationHistory.push({
-              role: 'assistant',
-              content: startMessage,
-              timestamp: new Date().toISOString()
-            });
-
-            await db
-              .update(chatSessions)
-              .set({
-                messages: conversationHistory,
-                updatedAt: new Date()
-              })
-              .where(eq(chatSessions.id, sessionId));
-
-            sendEvent({
-              type: 'research_started',
-              objective: researchBrief.objective,
-              brief: researchBrief
-            });
-
-            let researchResult: any = null;
-            try {
-              researchResult = await runResearch({
-                chatSessionId: sessionId,
-                researchBrief,
-                onProgress: (update) => sendEvent(update)
-              });
-            } catch (researchError: any) {
-              if (researchError.message === 'Research stopped by user') {
-                await db
-                  .update(researchSessions)
-                  .set({ status: 'stopped', completedAt: new Date() })
-                  .where(eq(researchSessions.id, researchSessionId));
-
-                sendEvent({ type: 'message', message: 'Research stopped.', role: 'assistant' });
-                sendEvent({ type: 'complete' });
-                return;
-              }
-              throw researchError;
+            if (!(await hasEnoughCredits(user.id, MIN_CREDITS_TO_START_RESEARCH))) {
+              sendEvent({ type: 'error', message: `Research needs at least ${MIN_CREDITS_TO_START_RESEARCH} credits. Buy more on the Credits page to continue.` });
+              sendEvent({ type: 'complete' });
+              return;
             }
 
-            // Update research session with results
-            const output = researchResult?.output;
-            await db
-              .update(researchSessions)
-              .set({
-                status: 'completed',
-                finalAnswer: output?.finalAnswer,
-                totalSteps: researchResult?.totalQuestions || 0,
-                completedAt: new Date()
-              })
-              .where(eq(researchSessions.id, researchSessionId));
-
-            // Get final answer
-            const finalMessage = output?.finalAnswer?.trim() ||
-              '**Research Complete**\n\nI\'ve finished researching this topic.';
-
-            // Get current messages and append research result
-            const [updatedSession] = await db
-              .select({ messages: chatSessions.messages })
-              .from(chatSessions)
-              .where(eq(chatSessions.id, sessionId));
+            // Nothing is spent yet: show the plan with a cost estimate and wait for the user
+            // to start (optionally with a smaller budget) or cancel - POST /api/sessions/[id]/confirm
+            const estimate = await estimateResearchCost(researchBrief);
+            const searchProviders = availableSearchProviders(); // the user may pick one on confirm
+            const confirmMessage = decision.message || 'Here is the research plan.';
 
-            // Add a context message so intake knows what just happened
-            const researchContextMessage = {
-              role: 'assistant',
-              content: `[Research completed] Objective: ${researchBrief.objective}`,
-              timestamp: new Date().toISOString(),
-              metadata: { 
-                type: 'research_context',
-                objective: researchBrief.objective,
-                summary: finalMessage.substring(0, 800)
-              }
-            };
-
-            const updatedConversation = (updatedSession?.messages as any[] || []).concat([
-              researchContextMessage,
-              {
-                role: 'assistant',
-                content: finalMessage,
-                timestamp: new Date().toISOString(),
-                metadata: { kind: 'research_result' }
-              }
-            ]);
-
-            // Add follow-up question
-            const followUpQuestion = 'What would you like to do next?';
-            const followUpOptions = [
-              { label: 'Dive deeper' },
-              { label: 'New research' },
-              { label: 'Done for now' }
-            ];
-
-            updatedConversation.push({
+            conversationHistory.push({
               role: 'assistant',
-              content: followUpQuestion,
+              content: confirmMessage,
               timestamp: new Date().toISOString(),
-              metadata: { type: 'multi_choice_select', options: followUpOptions }
+              metadata: { type: 'research_confirmation', brief: researchBrief, estimate, searchProviders, status: 'pending' }
             });
 
             await db
               .update(chatSessions)
-              .set({
-                messages: updatedConversation,
-                status: 'active',
-                updatedAt: new Date()
-              })
+              .set({ messages: conversationHistory, updatedAt: new Date() })
               .where(eq(chatSessions.id, sessionId));
 
-            // Send research result
-            sendEvent({
-              type: 'message',
-              message: finalMessage,
-              role: 'assistant',
-              metadata: { kind: 'research_result' }
-            });
-
-            // Send follow-up question
-            sendEvent({
-              type: 'multi_choice_select',
-              question: followUpQuestion,
-              options: followUpOptions
-            });
-
+            sendEvent({ type: 'research_estimate', message: confirmMessage, brief: researchBrief, estimate, searchProviders });
             sendEvent({ type: 'complete' });
           }
 
@@ -381,6 +284,8 @@ export async function POST(
             message: error.message || 'An error occurred'
           });
         } finally {
+          await meter.flush();
+          await sendQueue;
           streamClosed = true;
           controller.close();
         }
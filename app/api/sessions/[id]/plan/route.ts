@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { approvePlan, parsePlanQuestions, MAX_PLAN_QUESTIONS } from '@/lib/sessions/plan-approval';
+import { requireSessionAccess } from '@/lib/sessions/access';
+import { requeueParkedJob } from '@/lib/jobs/research-jobs';
+import { kickWorker } from '@/lib/jobs/worker';
+
+/**
+ * POST /api/sessions/[id]/plan
+ * Approve the plan a run in approval mode is waiting on (plan_proposed)
+ *
+ * Body: { round: number, questions: { id?, question, description?, goal? }[] }
+ * Proposed questions left out are dropped, edited ones keep their id, ones without an id are added.
+ * The run picks the plan up within a couple of seconds and continues (plan_approved). A run that
+ * gave up waiting was parked - its job is queued again and resumes from the checkpoint.
+ */
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const params = await context.params;
+  const sessionId = params.id;
+
+  try {
+    const access = await requireSessionAccess(sessionId);
+    if (!access.ok) return access.response;
+    const { session } = access;
+
+    let body;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const round = body?.round;
+    if (typeof round !== 'number' || !Number.isInteger(round)) {
+      return NextResponse.json({ error: 'round is required' }, { status: 400 });
+    }
+    const questions = parsePlanQuestions(body?.questions);
+    if (!questions) {
+      return NextResponse.json(
+        { error: `questions must list 1-${MAX_PLAN_QUESTIONS} questions, each with question text` },
+        { status: 400 }
+      );
+    }
+
+    if (session.status !== 'researching') {
+      return NextResponse.json({ error: 'No research is running' }, { status: 409 });
+    }
+
+    if (!(await approvePlan(sessionId, round, questions))) {
+      return NextResponse.json({ error: 'No plan waiting for approval in this round' }, { status: 409 });
+    }
+
+    if (await requeueParkedJob(sessionId)) kickWorker();
+
+    return NextResponse.json({ status: 'approved', round, questions });
+
+  } catch (error: unknown) {
+    console.error('Error approving plan:', error);
+    return NextResponse.json(
+      { error: 'Failed to approve plan', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,8 @@
 import { NextRequest } from 'next/server';
-import { auth } from '@clerk/nextjs/server';
 import { db } from '@/lib/db';
-import { chatSessions, users } from '@/lib/db/schema';
+import { chatSessions } from '@/lib/db/schema';
 import { eq, and } from 'drizzle-orm';
+import { requireSessionAccess } from '@/lib/sessions/access';
 
 /**
  * GET /api/sessions/[id]
@@ -12,40 +12,14 @@ export async function GET(
   req: NextRequest,
   context: { params: Promise<{ id: string }> }
 ) {
-  const { userId: clerkUserId } = await auth();
-
-  if (!clerkUserId) {
-    return new Response('Unauthorized', { status: 401 });
-  }
-
   const params = await context.params;
   const sessionId = params.id;
 
   try {
-    // Get user
-    const [user] = await db
-      .select()
-      .from(users)
-      .where(eq(users.clerkId, clerkUserId));
-
-    if (!user) {
-      return new Response('User not found', { status: 404 });
-    }
-
-    // Fetch the session, ensuring it belongs to this user
-    const [session] = await db
-      .select()
-      .from(chatSessions)
-      .where(
-        and(
-          eq(chatSessions.id, sessionId),
-          eq(chatSessions.userId, user.id)
-        )
-      );
-
-    if (!session) {
-      return new Response('Session not found', { status: 404 });
-    }
+    // Only the owner can read a session
+    const access = await requireSessionAccess(sessionId);
+    if (!access.ok) return access.response;
+    const { session } = access;
 
     return Response.json({ session });
 
@@ -66,40 +40,21 @@ export async function DELETE(
   req: NextRequest,
   context: { params: Promise<{ id: string }> }
 ) {
-  const { userId: clerkUserId } = await auth();
-
-  if (!clerkUserId) {
-    return new Response('Unauthorized', { status: 401 });
-  }
-
   const params = await context.params;
   const sessionId = params.id;
 
   try {
-    // Get user
-    const [user] = await db
-      .select()
-      .from(users)
-      .where(eq(users.clerkId, clerkUserId));
-
-    if (!user) {
-      return new Response('User not found', { status: 404 });
-    }
+    const access = await requireSessionAccess(sessionId);
+    if (!access.ok) return access.response;
 
-    // Delete the session, ensuring it belongs to this user
-    const result = await db
+    await db
       .delete(chatSessions)
       .where(
         and(
           eq(chatSessions.id, sessionId),
-          eq(chatSessions.userId, user.id)
+          eq(chatSessions.userId, access.user.id)
         )
-      )
-      .returning({ id: chatSessions.id });
-
-    if (result.length === 0) {
-      return new Response('Session not found', { status: 404 });
-    }
+      );
 
     return Response.json({ success: true });
 
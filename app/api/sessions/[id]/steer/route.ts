@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { addSteeringNote, MAX_STEERING_NOTE_LENGTH } from '@/lib/sessions/steering';
+import { requireSessionAccess } from '@/lib/sessions/access';
+
+/**
+ * POST /api/sessions/[id]/steer
+ * Send a steering note to the running research ("focus on pricing")
+ *
+ * Body: { note: string }
+ * The run picks it up within a couple of seconds: it goes into the next Brain.evaluate and
+ * the researchers' next steps, and the stream acknowledges it (steering_received / steering_applied).
+ */
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const params = await context.params;
+  const sessionId = params.id;
+
+  try {
+    const access = await requireSessionAccess(sessionId);
+    if (!access.ok) return access.response;
+    const { session } = access;
+
+    let body;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const note = typeof body?.note === 'string' ? body.note.trim() : '';
+    if (!note) {
+      return NextResponse.json({ error: 'note is required' }, { status: 400 });
+    }
+    if (note.length > MAX_STEERING_NOTE_LENGTH) {
+      return NextResponse.json({ error: `note must be at most ${MAX_STEERING_NOTE_LENGTH} characters` }, { status: 400 });
+    }
+
+    if (session.status !== 'researching') {
+      return NextResponse.json({ error: 'No research is running' }, { status: 409 });
+    }
+
+    const stored = await addSteeringNote(sessionId, note);
+    return NextResponse.json({ status: 'queued', note: stored });
+
+  } catch (error: unknown) {
+    console.error('Error steering research:', error);
+    return NextResponse.json(
+      { error: 'Failed to send steering note', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { auth } from '@clerk/nextjs/server';
 import { db } from '@/lib/db';
-import { chatSessions } from '@/lib/db/schema';
+import { chatSessions, researchSessions } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
+import { requestStop } from '@/lib/research/cancel';
+import { requireSessionAccess } from '@/lib/sessions/access';
+import { stopParkedJob } from '@/lib/jobs/research-jobs';
+import { appendStoppedMessage } from '@/lib/sessions/conversation';
+import { clearPlanApproval } from '@/lib/sessions/plan-approval';
+import type { ResearchBrief } from '@/lib/agents/intake-agent';
 
 /**
  * POST /api/sessions/[id]/stop
@@ -12,36 +17,40 @@ export async function POST(
   req: NextRequest,
   context: { params: Promise<{ id: string }> }
 ) {
-  const { userId: clerkUserId } = await auth();
-
-  if (!clerkUserId) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-  }
-
   const params = await context.params;
   const sessionId = params.id;
 
   try {
-    // Get session
-    const [session] = await db
-      .select()
-      .from(chatSessions)
-      .where(eq(chatSessions.id, sessionId));
+    const access = await requireSessionAccess(sessionId);
+    if (!access.ok) return access.response;
 
-    if (!session) {
-      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    // A job parked waiting for plan approval has no worker to close it out - do it here
+    const parked = await stopParkedJob(sessionId);
+    if (parked) {
+      if (parked.researchSessionId) {
+        await db
+          .update(researchSessions)
+          .set({ status: 'stopped', completedAt: new Date() })
+          .where(eq(researchSessions.id, parked.researchSessionId));
+      }
+      await clearPlanApproval(sessionId);
+      await appendStoppedMessage(sessionId, (parked.brief as ResearchBrief).objective);
     }
 
-    // Stop research by clearing current research state
+    // Stop research by flipping the status back to active.
+    // runResearch polls this status, so this also stops runs in other processes.
+    // The checkpoint (currentResearch) is kept - partial results are built from it.
     await db
       .update(chatSessions)
       .set({
         status: 'active',
-        currentResearch: null,
         updatedAt: new Date()
       })
       .where(eq(chatSessions.id, sessionId));
 
+    // Abort in-flight LLM/search calls immediately if the run lives in this process
+    requestStop(sessionId);
+
     return NextResponse.json({
       status: 'stopped',
       message: 'Research stopped successfully'
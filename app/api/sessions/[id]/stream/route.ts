@@ -0,0 +1,150 @@
+import { NextRequest } from 'next/server';
+import { db } from '@/lib/db';
+import { chatSessions } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { getLatestJob, ACTIVE_JOB_STATUSES } from '@/lib/jobs/research-jobs';
+import type { ResearchJobStatus } from '@/lib/jobs/research-jobs';
+import { formatSseEvent, getEventsAfter, getLatestSeq, getReplayStart } from '@/lib/sessions/events';
+import type { ResearchProgressEvent } from '@/lib/sessions/events';
+import type { ConversationMessage } from '@/lib/sessions/conversation';
+import { requireSessionAccess } from '@/lib/sessions/access';
+
+const POLL_MS = 1000;
+const PAGE_SIZE = 200;
+
+/**
+ * Convert a stored conversation message into the SSE event the client would have received live
+ */
+function messageToEvent(m: ConversationMessage): ResearchProgressEvent | null {
+  if (m.role !== 'assistant') return null;
+  if (m.metadata?.type === 'research_context') return null; // intake-only context
+  if (m.metadata?.type === 'multi_choice_select') {
+    return { type: 'multi_choice_select', question: m.content, options: m.metadata.options || [], reason: m.metadata.reason };
+  }
+  return { type: 'message', message: m.content, role: 'assistant', metadata: m.metadata };
+}
+
+/**
+ * GET /api/sessions/[id]/stream
+ * Follow the session's research job (SSE stream).
+ *
+ * Replays stored events after Last-Event-ID (header, or ?lastEventId= for a new EventSource;
+ * without either, from the latest research_started), then tails new ones. Sends brain_update
+ * whenever the BrainDoc changes, then the messages the job appended and 'complete'.
+ */
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const params = await context.params;
+  const sessionId = params.id;
+
+  try {
+    const access = await requireSessionAccess(sessionId);
+    if (!access.ok) return access.response;
+    const { session } = access;
+
+    const baselineMessageCount = (session.messages as ConversationMessage[] || []).length;
+
+    const lastEventId = req.headers.get('last-event-id') ?? req.nextUrl.searchParams.get('lastEventId');
+    let lastSeq = lastEventId ? Number(lastEventId) || 0 : await getReplayStart(sessionId);
+    const replayUntil = await getLatestSeq(sessionId); // events up to here are replayed, not live
+
+    const encoder = new TextEncoder();
+    let streamClosed = false;
+    const stream = new ReadableStream({
+      async start(controller) {
+        const sendEvent = (data: ResearchProgressEvent, id?: number) => {
+          if (streamClosed) return;
+          try {
+            controller.enqueue(encoder.encode(formatSseEvent(data, id)));
+          } catch {
+            streamClosed = true;
+          }
+        };
+
+        try {
+          let lastBrain: string | null = null;
+          let jobDone = false;
+
+          while (!streamClosed && !req.signal.aborted) {
+            // Stored events first (replay, then tail)
+            const batch = await getEventsAfter(sessionId, lastSeq, PAGE_SIZE);
+            for (const event of batch) {
+              const replay = event.seq <= replayUntil;
+              sendEvent({ ...(event.data as ResearchProgressEvent), ...(replay && { replay, emittedAt: event.createdAt }) }, event.seq);
+              lastSeq = event.seq;
+            }
+            if (batch.length === PAGE_SIZE) continue; // more to replay
+
+            const [current] = await db
+              .select({ brain: chatSessions.brain, status: chatSessions.status })
+              .from(chatSessions)
+              .where(eq(chatSessions.id, sessionId));
+
+            if (!current) {
+              sendEvent({ type: 'error', message: 'Session not found' });
+              return;
+            }
+
+            // Not numbered - a reconnect gets the current snapshot instead
+            if (current.brain && current.brain !== lastBrain) {
+              lastBrain = current.brain;
+              sendEvent({ type: 'brain_update', brain: current.brain });
+            }
+
+            if (jobDone) {
+              // Job is done - replay what it appended to the conversation, then finish
+              const [final] = await db
+                .select({ messages: chatSessions.messages })
+                .from(chatSessions)
+                .where(eq(chatSessions.id, sessionId));
+
+              for (const m of (final?.messages as ConversationMessage[] || []).slice(baselineMessageCount)) {
+                const event = messageToEvent(m);
+                if (event) sendEvent(event);
+              }
+              sendEvent({ type: 'complete' });
+              return;
+            }
+
+            // 'researching' with no active job = the message route hasn't enqueued it yet
+            const job = await getLatestJob(sessionId);
+            const jobActive = job && ACTIVE_JOB_STATUSES.includes(job.status as ResearchJobStatus);
+            if (!jobActive && current.status !== 'researching') {
+              // One more pass picks up the events the worker stored before finishing the job
+              jobDone = true;
+              continue;
+            }
+
+            await new Promise(resolve => setTimeout(resolve, POLL_MS));
+          }
+        } catch (error: unknown) {
+          console.error('Error streaming research progress:', error);
+          sendEvent({ type: 'error', message: (error instanceof Error && error.message) || 'An error occurred' });
+        } finally {
+          streamClosed = true;
+          controller.close();
+        }
+      },
+      cancel() {
+        streamClosed = true;
+      }
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive'
+      }
+    });
+
+  } catch (error: unknown) {
+    console.error('Error in stream route:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to stream session', details: error instanceof Error ? error.message : String(error) }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -1,6 +1,39 @@
 import { NextRequest, NextResponse } from 'next/server';
+import Stripe from 'stripe';
+import { handleStripeEvent } from '@/lib/stripe/fulfillment';
 
-// Stripe webhooks disabled for POC
+/**
+ * POST /api/webhooks/stripe
+ * Verifies the Stripe signature, then fulfills checkout events (lib/stripe/fulfillment.ts)
+ *
+ * Public route (see proxy.ts). A non-2xx response makes Stripe retry, which is safe:
+ * fulfillment is idempotent per checkout session. A checkout that can't ever be credited
+ * (unknown user) gets a 2xx with `unfulfilled` and is logged for manual reconciliation instead.
+ */
 export async function POST(request: NextRequest) {
-  return NextResponse.json({ received: true });
+  const secret = process.env.STRIPE_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error('[Stripe] STRIPE_WEBHOOK_SECRET is not set');
+    return NextResponse.json({ error: 'Webhooks are not configured' }, { status: 503 });
+  }
+
+  // Signature is computed over the raw body - don't parse it first
+  const payload = await request.text();
+  const signature = request.headers.get('stripe-signature');
+
+  let event: Stripe.Event;
+  try {
+    event = Stripe.webhooks.constructEvent(payload, signature || '', secret);
+  } catch (error) {
+    console.error('[Stripe] Webhook signature verification failed:', error);
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 400 });
+  }
+
+  try {
+    const result = await handleStripeEvent(event);
+    return NextResponse.json({ received: true, ...result });
+  } catch (error) {
+    console.error(`[Stripe] Failed to handle ${event.type} (${event.id}):`, error);
+    return NextResponse.json({ error: 'Webhook handler failed' }, { status: 500 });
+  }
 }
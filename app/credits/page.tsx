@@ -1,27 +1,62 @@
 'use client';
 
-import { Suspense, useEffect, useState } from 'react';
+import { Suspense, useCallback, useEffect, useState } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { useCredits } from '@/hooks/useCredits';
 import { CreditBalance } from '@/components/CreditBalance';
 import { UserButton } from '@clerk/nextjs';
 import { CREDIT_PACKAGES } from '@/lib/stripe/client';
 
+interface CreditTransaction {
+  id: string;
+  type: 'grant' | 'purchase' | 'research_charge' | 'refund' | 'admin_adjustment';
+  amount: number;
+  balanceAfter: number;
+  chatSessionId: string | null;
+  description: string | null;
+  createdAt: string;
+}
+
+const TRANSACTION_LABELS: Record<CreditTransaction['type'], string> = {
+  grant: 'Free credits',
+  purchase: 'Purchase',
+  research_charge: 'Research',
+  refund: 'Refund',
+  admin_adjustment: 'Adjustment',
+};
+
 function CreditsPageContent() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const { credits, lifetimeCreditsUsed, refetch } = useCredits();
   const [loadingPackage, setLoadingPackage] = useState<string | null>(null);
   const [showSuccess, setShowSuccess] = useState(false);
+  const [transactions, setTransactions] = useState<CreditTransaction[]>([]);
+
+  const fetchTransactions = useCallback(async () => {
+    try {
+      const response = await fetch('/api/credits/transactions');
+      if (!response.ok) throw new Error('Failed to fetch credit history');
+      const data = await response.json();
+      setTransactions(data.transactions || []);
+    } catch (error) {
+      console.error('Credit history error:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTransactions();
+  }, [fetchTransactions]);
 
   useEffect(() => {
     if (searchParams.get('success') === 'true') {
       setShowSuccess(true);
       refetch();
+      fetchTransactions();
       // Remove query params
       router.replace('/credits');
     }
-  }, [searchParams, refetch, router]);
+  }, [searchParams, refetch, fetchTransactions, router]);
 
   const handlePurchase = async (packageId: string) => {
     setLoadingPackage(packageId);
@@ -233,6 +268,53 @@ function CreditsPageContent() {
           ))}
         </div>
 
+        <div className="mt-12 bg-white rounded-lg shadow-sm border border-gray-200">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h3 className="text-lg font-medium text-gray-900">History</h3>
+          </div>
+          {transactions.length === 0 ? (
+            <p className="px-6 py-8 text-sm text-gray-500 text-center">No credit activity yet</p>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Details</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Balance</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {transactions.map((tx) => (
+                  <tr key={tx.id}>
+                    <td className="px-6 py-3 text-sm text-gray-600 whitespace-nowrap">
+                      {new Date(tx.createdAt).toLocaleString()}
+                    </td>
+                    <td className="px-6 py-3 text-sm text-gray-900">{TRANSACTION_LABELS[tx.type] || tx.type}</td>
+                    <td className="px-6 py-3 text-sm text-gray-600">
+                      {tx.chatSessionId ? (
+                        <button
+                          onClick={() => router.push(`/sessions/${tx.chatSessionId}`)}
+                          className="text-blue-600 hover:text-blue-800"
+                        >
+                          {tx.description || 'View session'}
+                        </button>
+                      ) : (
+                        tx.description || '—'
+                      )}
+                    </td>
+                    <td className={`px-6 py-3 text-sm text-right font-medium ${tx.amount < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      {tx.amount > 0 ? '+' : ''}{tx.amount.toLocaleString()}
+                    </td>
+                    <td className="px-6 py-3 text-sm text-right text-gray-900">{tx.balanceAfter.toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
         <div className="mt-12 bg-blue-50 border border-blue-200 rounded-lg p-6">
           <h3 className="text-lg font-medium text-blue-900 mb-4">How Credits Work</h3>
           <ul className="space-y-2 text-sm text-blue-800">
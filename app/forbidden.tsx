@@ -0,0 +1,11 @@
+/**
+ * 403 page - rendered (with status 403) when a server component calls forbidden()
+ */
+export default function Forbidden() {
+  return (
+    <div className="min-h-screen bg-[#0a0a0a] flex flex-col items-center justify-center gap-2">
+      <span className="text-neutral-400 text-sm font-medium">403 - Forbidden</span>
+      <span className="text-neutral-600 text-xs">The Observatory is only available to admins.</span>
+    </div>
+  );
+}
@@ -17,6 +17,12 @@ import {
   MessageSquare,
   CheckCircle,
   Lightbulb,
+  Globe,
+  Circle,
+  CircleDashed,
+  CornerDownRight,
+  GitMerge,
+  XCircle,
 } from 'lucide-react';
 import BlurText from '@/components/BlurText';
 import ShinyText from '@/components/ShinyText';
@@ -24,14 +30,26 @@ import ReactMarkdown from 'react-markdown';
 
 // Types matching the new simplified memory model
 interface MemoryEntry {
-  type: 'search' | 'result' | 'reflect';
+  type: 'search' | 'result' | 'reflect' | 'read';
   query?: string;
   answer?: string;
   sources?: { url: string; title?: string }[];
+  url?: string; // read: the page that was fetched
+  title?: string;
+  error?: string;
   thought?: string;
   delta?: 'progress' | 'no_change' | 'dead_end';
 }
 
+interface QuestionFinding {
+  id: string;
+  content: string; // the claim
+  evidence?: string;
+  sources: { url: string; title?: string }[];
+  confidence?: 'low' | 'medium' | 'high';
+  status?: 'active' | 'disqualified';
+}
+
 interface QuestionDocument {
   answer: string;
   keyFindings: string[];
@@ -46,10 +64,15 @@ interface ResearchQuestion {
   question: string;
   description?: string;
   goal: string;
-  status: 'pending' | 'running' | 'done';
+  status: 'pending' | 'running' | 'done' | 'killed';
+  parentId?: string | null; // drill-down of this question
+  dependsOn?: string[]; // starts once these are done, with their answers
+  hypothesisId?: string | null; // the hypothesis it tests
+  mergedInto?: string | null; // killed as a duplicate of this question
   cycles: number;
   maxCycles: number;
   memory: MemoryEntry[];
+  findings?: QuestionFinding[];
   confidence: 'low' | 'medium' | 'high' | null;
   recommendation: 'promising' | 'dead_end' | 'needs_more' | null;
   summary?: string;
@@ -59,20 +82,41 @@ interface ResearchQuestion {
 interface BrainDecision {
   id: string;
   timestamp: string;
-  action: 'spawn' | 'synthesize';
+  action: 'spawn' | 'drill_down' | 'kill' | 'merge' | 'plan_approved' | 'synthesize';
   questionId?: string;
+  parentId?: string; // drill_down
+  intoId?: string; // merge
+  round?: number;
   reasoning: string;
 }
 
+interface SuccessCriterion {
+  id: string;
+  text: string;
+  status: 'unmet' | 'partial' | 'met';
+  questionIds: string[];
+  evidence?: string | null;
+}
+
+interface Hypothesis {
+  id: string;
+  statement: string;
+  status: 'open' | 'supported' | 'refuted';
+  supportingIds: string[];
+  refutingIds: string[];
+}
+
 interface BrainDoc {
   version: 1;
   objective: string;
   successCriteria: string[];
+  criteria?: SuccessCriterion[]; // live checklist, updated after every brain evaluation
+  hypotheses?: Hypothesis[]; // the brain's bets, re-judged after every evaluation
   researchRound?: number;
   researchReason?: string;
   questions: ResearchQuestion[];
   brainLog: BrainDecision[];
-  status: 'running' | 'synthesizing' | 'complete';
+  status: 'running' | 'awaiting_approval' | 'synthesizing' | 'complete' | 'stopped';
   finalAnswer?: string;
 }
 
@@ -143,9 +187,15 @@ export default function ResearchProgress({ doc: rawDoc, className }: ResearchPro
     return null;
   };
 
+  // Why the brain killed/merged a question (latest decision wins)
+  const getQuestionDecision = (questionId: string): BrainDecision | undefined =>
+    doc.brainLog.findLast(d => d.questionId === questionId && (d.action === 'kill' || d.action === 'merge'));
+
+  const findQuestion = (id?: string | null) => (id ? doc.questions.find(q => q.id === id) : undefined);
+
   // Render memory entries as a conversation
   const renderMemory = (memory: MemoryEntry[]) => {
-    // Group consecutive search+result pairs
+    // Group consecutive search+result pairs (a page read is its own step + result)
     const groups: Array<{ search: MemoryEntry; result?: MemoryEntry; reflect?: MemoryEntry }> = [];
 
     for (let i = 0; i < memory.length; i++) {
@@ -161,6 +211,13 @@ export default function ResearchProgress({ doc: rawDoc, className }: ResearchPro
           i++;
         }
         groups.push(group);
+      } else if (m.type === 'read') {
+        const group: { search: MemoryEntry; result?: MemoryEntry; reflect?: MemoryEntry } = { search: m, result: m.error ? undefined : m };
+        if (i + 1 < memory.length && memory[i + 1].type === 'reflect') {
+          group.reflect = memory[i + 1];
+          i++;
+        }
+        groups.push(group);
       } else if (m.type === 'reflect' && groups.length === 0) {
         groups.push({ search: { type: 'search', query: '' }, reflect: m });
       }
@@ -171,14 +228,20 @@ export default function ResearchProgress({ doc: rawDoc, className }: ResearchPro
         {/* Search queries - visible, results in accordion */}
         {groups.map((group, i) => (
           <div key={i} className="space-y-2">
-            {group.search.query && (
+            {(group.search.query || group.search.type === 'read') && (
               <Collapsible>
                 <div className="flex items-start gap-2">
-                  <Search className="w-3 h-3 text-slate-600 mt-1 shrink-0" />
+                  {group.search.type === 'read' ? (
+                    <Globe className="w-3 h-3 text-emerald-600 mt-1 shrink-0" />
+                  ) : (
+                    <Search className="w-3 h-3 text-slate-600 mt-1 shrink-0" />
+                  )}
                   <div className="flex-1">
                     <CollapsibleTrigger className="text-left group/search">
                       <span className="text-sm text-slate-400 hover:text-slate-200 transition-colors cursor-pointer">
-                        {group.search.query}
+                        {group.search.type === 'read'
+                          ? `Read ${group.search.title || group.search.url}${group.search.error ? ` (failed: ${group.search.error})` : ''}`
+                          : group.search.query}
                       </span>
                       {group.result && (
                         <ChevronRight className="w-3 h-3 text-slate-600 inline ml-2 transition-transform group-data-[state=open]/search:rotate-90" />
@@ -263,9 +326,119 @@ export default function ResearchProgress({ doc: rawDoc, className }: ResearchPro
             "{doc.researchReason}"
           </p>
         )}
+
+        {/* Success criteria checklist - why the brain keeps going (or says done) */}
+        {doc.criteria && doc.criteria.length > 0 && (
+          <div className="mt-5 space-y-2.5">
+            <p className="text-[10px] font-black text-slate-600 uppercase tracking-widest">
+              Success criteria · {doc.criteria.filter(c => c.status === 'met').length}/{doc.criteria.length} met
+            </p>
+            {doc.criteria.map(criterion => {
+              const linked = criterion.questionIds
+                .map(id => doc.questions.find(q => q.id === id))
+                .filter((q): q is ResearchQuestion => Boolean(q));
+
+              return (
+                <div key={criterion.id} className="flex items-start gap-2.5">
+                  {criterion.status === 'met' ? (
+                    <CheckCircle className="w-3.5 h-3.5 text-emerald-500 mt-0.5 shrink-0" />
+                  ) : criterion.status === 'partial' ? (
+                    <CircleDashed className="w-3.5 h-3.5 text-amber-500 mt-0.5 shrink-0" />
+                  ) : (
+                    <Circle className="w-3.5 h-3.5 text-slate-600 mt-0.5 shrink-0" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className={cn("text-sm leading-relaxed", criterion.status === 'met' ? "text-slate-300" : "text-slate-400")}>
+                      {criterion.text}
+                    </p>
+                    {criterion.evidence && (
+                      <p className="text-xs text-slate-500 leading-relaxed mt-0.5">{criterion.evidence}</p>
+                    )}
+                    {linked.length > 0 && (
+                      <div className="flex flex-wrap gap-1.5 mt-1.5">
+                        {linked.map(q => (
+                          <button
+                            key={q.id}
+                            onClick={() => setActiveTabByRound(prev => ({ ...prev, [q.researchRound || 1]: q.id }))}
+                            className="text-[10px] px-1.5 py-0.5 rounded bg-white/5 text-slate-500 hover:text-slate-300 transition-colors"
+                          >
+                            {q.name}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
       </div>
 
 
+      {/* Hypothesis board - what the brain is betting on, and what the research said */}
+      {doc.hypotheses && doc.hypotheses.length > 0 && (
+        <div className="space-y-3">
+          <div className="flex items-center gap-3">
+            <span className="text-[10px] font-black text-slate-600 uppercase tracking-widest">Hypotheses</span>
+            <div className="flex-1 h-px bg-white/5" />
+          </div>
+          <div className="grid gap-2 sm:grid-cols-2">
+            {doc.hypotheses.map(hypothesis => {
+              const evidence = [
+                ...hypothesis.supportingIds.map(id => ({ question: findQuestion(id), supports: true })),
+                ...hypothesis.refutingIds.map(id => ({ question: findQuestion(id), supports: false })),
+              ].filter((e): e is { question: ResearchQuestion; supports: boolean } => Boolean(e.question));
+
+              return (
+                <div
+                  key={hypothesis.id}
+                  className={cn(
+                    "p-3 rounded-xl border",
+                    hypothesis.status === 'supported' ? "bg-emerald-500/[0.03] border-emerald-500/15" :
+                    hypothesis.status === 'refuted' ? "bg-red-500/[0.03] border-red-500/10" :
+                    "bg-white/[0.02] border-white/5"
+                  )}
+                >
+                  <div className="flex items-start justify-between gap-3">
+                    <p className={cn(
+                      "text-sm leading-relaxed",
+                      hypothesis.status === 'refuted' ? "text-slate-500 line-through decoration-slate-600" : "text-slate-300"
+                    )}>
+                      {hypothesis.statement}
+                    </p>
+                    <span className={cn(
+                      "px-1.5 py-0.5 rounded text-[9px] font-black uppercase tracking-widest shrink-0",
+                      hypothesis.status === 'supported' ? "bg-emerald-500/10 text-emerald-400" :
+                      hypothesis.status === 'refuted' ? "bg-red-500/10 text-red-400" :
+                      "bg-slate-500/10 text-slate-400"
+                    )}>
+                      {hypothesis.status}
+                    </span>
+                  </div>
+                  {evidence.length > 0 && (
+                    <div className="flex flex-wrap gap-1.5 mt-2">
+                      {evidence.map(({ question, supports }) => (
+                        <button
+                          key={`${question.id}-${supports}`}
+                          onClick={() => setActiveTabByRound(prev => ({ ...prev, [question.researchRound || 1]: question.id }))}
+                          className={cn(
+                            "text-[10px] px-1.5 py-0.5 rounded bg-white/5 hover:text-slate-300 transition-colors",
+                            supports ? "text-emerald-500/80" : "text-red-400/80"
+                          )}
+                        >
+                          {supports ? '+' : '−'} {question.name}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* Research Rounds */}
       {rounds.map((roundNum, roundIndex) => {
         const questions = questionsByRound.get(roundNum) || [];
@@ -291,6 +464,7 @@ export default function ResearchProgress({ doc: rawDoc, className }: ResearchPro
                     const isActive = question.id === activeTab;
                     const isDone = question.status === 'done';
                     const isRunning = question.status === 'running';
+                    const isKilled = question.status === 'killed';
                     const searchCount = question.memory.filter(m => m.type === 'search').length;
 
                     return (
@@ -308,10 +482,12 @@ export default function ResearchProgress({ doc: rawDoc, className }: ResearchPro
                           className={cn(
                             "w-1.5 h-1.5 rounded-full",
                             isDone ? "bg-emerald-500" :
-                            isRunning ? "bg-amber-500 animate-pulse" : "bg-slate-600"
+                            isRunning ? "bg-amber-500 animate-pulse" :
+                            isKilled ? "bg-red-500/50" : "bg-slate-600"
                           )}
                         />
-                        {question.name}
+                        {question.parentId && <CornerDownRight className="w-3 h-3 text-slate-600" />}
+                        <span className={cn(isKilled && "line-through decoration-slate-600")}>{question.name}</span>
                         {searchCount > 0 && (
                           <span className="text-xs text-slate-600">
                             {searchCount}
@@ -350,13 +526,76 @@ export default function ResearchProgress({ doc: rawDoc, className }: ResearchPro
                             ? "bg-emerald-500/10 text-emerald-400 border border-emerald-500/20"
                             : activeQuestion.status === 'running'
                             ? "bg-amber-500/10 text-amber-400 border border-amber-500/20"
+                            : activeQuestion.status === 'killed'
+                            ? "bg-red-500/10 text-red-400 border border-red-500/20"
                             : "bg-slate-500/10 text-slate-400 border border-slate-500/20"
                         )}>
-                          {activeQuestion.status}
+                          {activeQuestion.mergedInto ? 'merged' : activeQuestion.status}
                         </span>
                       </div>
                     </div>
 
+                    {/* Decision tree - where this question came from, and why the brain dropped it */}
+                    {findQuestion(activeQuestion.parentId) && (
+                      <button
+                        onClick={() => {
+                          const parent = findQuestion(activeQuestion.parentId)!;
+                          setActiveTabByRound(prev => ({ ...prev, [parent.researchRound || 1]: parent.id }));
+                        }}
+                        className="flex items-center gap-2 text-xs text-slate-500 hover:text-slate-300 transition-colors"
+                      >
+                        <CornerDownRight className="w-3.5 h-3.5" />
+                        Drills into: {findQuestion(activeQuestion.parentId)!.question}
+                      </button>
+                    )}
+
+                    {doc.hypotheses?.find(h => h.id === activeQuestion.hypothesisId) && (
+                      <p className="text-xs text-slate-500">
+                        Tests: <span className="text-slate-400">{doc.hypotheses.find(h => h.id === activeQuestion.hypothesisId)!.statement}</span>
+                      </p>
+                    )}
+
+                    {(activeQuestion.dependsOn || []).some(id => findQuestion(id)) && (
+                      <div className="flex flex-wrap items-center gap-1.5 text-xs text-slate-500">
+                        <span>
+                          {activeQuestion.status === 'pending' &&
+                            (activeQuestion.dependsOn || []).some(id => findQuestion(id)?.status === 'pending' || findQuestion(id)?.status === 'running')
+                            ? 'Waiting on:'
+                            : 'Builds on:'}
+                        </span>
+                        {(activeQuestion.dependsOn || []).map(id => findQuestion(id)).filter((q): q is ResearchQuestion => Boolean(q)).map(dep => (
+                          <button
+                            key={dep.id}
+                            onClick={() => setActiveTabByRound(prev => ({ ...prev, [dep.researchRound || 1]: dep.id }))}
+                            className="px-1.5 py-0.5 rounded bg-white/5 hover:text-slate-300 transition-colors"
+                          >
+                            {dep.name}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+
+                    {activeQuestion.status === 'killed' && (() => {
+                      const decision = getQuestionDecision(activeQuestion.id);
+                      const into = findQuestion(activeQuestion.mergedInto);
+                      return (
+                        <div className="flex items-start gap-2 p-3 rounded-lg bg-red-500/[0.03] border border-red-500/10">
+                          {into ? (
+                            <GitMerge className="w-4 h-4 text-slate-500 shrink-0 mt-0.5" />
+                          ) : (
+                            <XCircle className="w-4 h-4 text-red-400/60 shrink-0 mt-0.5" />
+                          )}
+                          <div>
+                            <span className="text-[10px] font-black text-slate-600 uppercase tracking-widest block mb-1">
+                              {into ? 'Merged as a duplicate' : 'Dropped by the brain'}
+                            </span>
+                            {into && <p className="text-sm text-slate-300">Into: {into.question}</p>}
+                            {decision?.reasoning && <p className="text-sm text-slate-400">{decision.reasoning}</p>}
+                          </div>
+                        </div>
+                      );
+                    })()}
+
                     {activeQuestion.description && (
                       <p className="text-sm text-slate-400 leading-relaxed">
                         {activeQuestion.description}
@@ -401,7 +640,7 @@ export default function ResearchProgress({ doc: rawDoc, className }: ResearchPro
                       renderMemory(activeQuestion.memory)
                     )}
 
-                    {activeQuestion.status === 'done' && (activeQuestion.document || activeQuestion.summary) && (
+                    {(activeQuestion.status === 'done' || activeQuestion.status === 'killed') && (activeQuestion.document || activeQuestion.summary) && (
                       <div className="mt-6 p-5 rounded-2xl bg-emerald-500/[0.03] border border-emerald-500/10 shadow-lg shadow-emerald-500/5">
                         <div className="flex items-center gap-2 mb-3">
                           <CheckCircle className="w-4 h-4 text-emerald-500" />
@@ -440,6 +679,67 @@ export default function ResearchProgress({ doc: rawDoc, className }: ResearchPro
                         ) : (
                           <p className="text-sm text-slate-400 italic">Research completed</p>
                         )}
+
+                        {/* Findings - the facts Brain plans with */}
+                        {activeQuestion.findings && activeQuestion.findings.length > 0 && (
+                          <div className="mt-5 pt-4 border-t border-emerald-500/10 space-y-3">
+                            <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest">
+                              Findings ({activeQuestion.findings.length})
+                            </p>
+                            {activeQuestion.findings.map((finding) => (
+                              <div key={finding.id} className="flex items-start gap-2">
+                                <span
+                                  className={cn(
+                                    "mt-1.5 w-1.5 h-1.5 rounded-full shrink-0",
+                                    finding.confidence === 'high' ? "bg-emerald-500" :
+                                    finding.confidence === 'medium' ? "bg-amber-500" : "bg-slate-500"
+                                  )}
+                                  title={`${finding.confidence || 'unknown'} confidence`}
+                                />
+                                <div className="space-y-1 min-w-0">
+                                  <p className="text-sm text-slate-200 leading-snug">{finding.content}</p>
+                                  {finding.evidence && (
+                                    <p className="text-xs text-slate-500 italic leading-snug">&ldquo;{finding.evidence}&rdquo;</p>
+                                  )}
+                                  {finding.sources.length > 0 && (
+                                    <div className="flex flex-wrap gap-2">
+                                      {finding.sources.map((source, j) => (
+                                        <a
+                                          key={j}
+                                          href={source.url}
+                                          target="_blank"
+                                          rel="noopener noreferrer"
+                                          className="text-[10px] text-slate-600 hover:text-slate-400 transition-colors"
+                                        >
+                                          {source.url.includes('http') ? new URL(source.url).hostname.replace('www.', '') : source.url}
+                                        </a>
+                                      ))}
+                                    </div>
+                                  )}
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+
+                        {/* The answer's [n] citations */}
+                        {activeQuestion.document?.sources && activeQuestion.document.sources.length > 0 && (
+                          <ol className="mt-4 pt-3 border-t border-emerald-500/10 space-y-1">
+                            {activeQuestion.document.sources.map((source, i) => (
+                              <li key={i} className="text-[11px] text-slate-500 truncate">
+                                <span className="font-mono mr-1.5">[{i + 1}]</span>
+                                <a
+                                  href={source.url}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="hover:text-slate-300 transition-colors"
+                                >
+                                  {source.title || source.url}
+                                </a>
+                              </li>
+                            ))}
+                          </ol>
+                        )}
                       </div>
                     )}
                   </div>
@@ -482,6 +782,16 @@ export default function ResearchProgress({ doc: rawDoc, className }: ResearchPro
             <span>Researching...</span>
           </div>
         )}
+        {doc.status === 'awaiting_approval' && (
+          <div className="flex items-center gap-2 text-slate-500 text-sm">
+            <span>Waiting for you to approve the plan</span>
+          </div>
+        )}
+        {doc.status === 'stopped' && (
+          <div className="flex items-center gap-2 text-slate-500 text-sm">
+            <span>Stopped - partial results</span>
+          </div>
+        )}
         {doc.status === 'synthesizing' && (
           <div className="flex items-center gap-2 text-slate-500 text-sm">
             <Loader2 className="w-4 h-4 animate-spin" />
@@ -2,7 +2,7 @@
 
 import { useState, useRef, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { useSession } from '@/hooks/useSession';
+import { useSession, type CostEstimate, type PlanQuestion } from '@/hooks/useSession';
 import ReactMarkdown from 'react-markdown';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -31,8 +31,12 @@ import {
   Telescope,
   Activity,
   Zap,
+  Plus,
+  Trash2,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { linkCitations, stripBibliography } from '@/lib/research/citations';
+import type { Citation } from '@/lib/research/types';
 
 // --- Sub-components for better organization ---
 
@@ -272,6 +276,33 @@ function getDomain(url: string): string {
   }
 }
 
+/**
+ * Bibliography of a research answer - the answer's [n] markers link to these anchors
+ */
+function SourceFootnotes({ sources, anchorPrefix }: { sources: Citation[]; anchorPrefix: string }) {
+  return (
+    <div className="pt-4 mt-2 border-t border-white/5">
+      <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-3">Sources</p>
+      <ol className="space-y-1.5">
+        {sources.map((source, i) => (
+          <li key={i} id={`${anchorPrefix}-${i + 1}`} className="flex items-start gap-2 text-xs scroll-mt-24 target:bg-blue-500/10 rounded-md px-1 -mx-1">
+            <span className="font-mono text-slate-500 shrink-0">[{i + 1}]</span>
+            <a
+              href={source.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-slate-300 hover:text-blue-400 hover:underline"
+            >
+              {source.title}
+            </a>
+            <span className="text-slate-600 truncate">{getDomain(source.url)}</span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
 /**
  * Component for extract results (URL scraping)
  */
@@ -426,10 +457,11 @@ function ReasoningContent({ reflection }: { reflection: string }) {
 /**
  * Component for displaying reviewer verdict and notes
  */
-function ReviewResult({ verdict, critique, missing }: {
+function ReviewResult({ verdict, critique, missing, unsupported = [] }: {
   verdict: string;
   critique: string;
   missing: string[];
+  unsupported?: string[];
 }) {
   const isPassing = verdict === 'pass';
 
@@ -483,9 +515,258 @@ function ReviewResult({ verdict, critique, missing }: {
                 </div>
               </div>
             )}
+
+            {unsupported.length > 0 && (
+              <div className="mt-4 pt-4 border-t border-white/5">
+                <p className="text-[9px] font-bold text-slate-500 uppercase tracking-widest mb-2">Unsupported Claims</p>
+                <div className="grid gap-1.5">
+                  {unsupported.map((item, i) => (
+                    <div key={i} className="flex items-center gap-2 text-[12px] text-slate-400">
+                      <div className="w-1 h-1 rounded-full bg-rose-500/40" />
+                      {item}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Component for a proposed research run: plan + cost estimate, start / shrink budget / cancel
+ */
+function ResearchConfirmation({ message, brief, estimate, searchProviders = [], state, status, onConfirm }: {
+  message: string;
+  brief: { objective: string; successCriteria?: string[] };
+  estimate?: CostEstimate;
+  searchProviders?: string[];
+  state: 'pending' | 'accepted' | 'cancelled';
+  status: string;
+  onConfirm: (action: 'start' | 'cancel', maxCredits?: number, approvePlan?: boolean, searchProvider?: string) => Promise<void>;
+}) {
+  const maxCredits = estimate?.maxCredits || 0;
+  const [budget, setBudget] = useState(String(maxCredits || ''));
+  const [approvePlan, setApprovePlan] = useState(false);
+  const [searchProvider, setSearchProvider] = useState(''); // '' = server default
+  const [submitting, setSubmitting] = useState(false);
+
+  const handle = async (action: 'start' | 'cancel') => {
+    if (submitting || status !== 'ready') return;
+    setSubmitting(true);
+    const requested = Number(budget);
+    await onConfirm(
+      action,
+      action === 'start' && requested > 0 && requested < maxCredits ? requested : undefined,
+      action === 'start' && approvePlan,
+      action === 'start' && searchProvider ? searchProvider : undefined
+    );
+    setSubmitting(false);
+  };
+
+  return (
+    <div className="space-y-4 mt-2 p-5 rounded-2xl bg-white/2 border border-white/5 animate-in fade-in slide-in-from-bottom-2 duration-500">
+      <div className="flex items-start gap-3">
+        <div className="w-8 h-8 rounded-lg bg-blue-600 flex items-center justify-center shrink-0 shadow-lg shadow-blue-500/20">
+          <Telescope className="w-4 h-4 text-white" />
+        </div>
+        <div className="flex-1 space-y-2 pt-1">
+          {message && <p className="text-slate-400 text-sm">{message}</p>}
+          <p className="text-white text-sm font-semibold">{brief.objective}</p>
+          {brief.successCriteria && brief.successCriteria.length > 0 && (
+            <div className="grid gap-1">
+              {brief.successCriteria.map((criterion, i) => (
+                <div key={i} className="flex items-center gap-2 text-[12px] text-slate-400">
+                  <div className="w-1 h-1 rounded-full bg-blue-500/60" />
+                  {criterion}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {estimate && (
+        <div className="pl-11 space-y-1">
+          <p className="text-sm text-slate-200 font-medium">
+            Estimated cost: {estimate.low.toLocaleString()}–{estimate.high.toLocaleString()} credits
+            <span className="text-slate-500"> · ~{estimate.searches.low}–{estimate.searches.high} searches</span>
+          </p>
+          {estimate.overBudget && (
+            <p className="text-[11px] text-amber-400">
+              Over budget: this may need more than {maxCredits.toLocaleString()} credits, so the run could stop before it finishes.
+            </p>
+          )}
+          <p className="text-[11px] text-slate-500">
+            {estimate.basedOnRuns > 0
+              ? `Based on ${estimate.basedOnRuns} similar past runs.`
+              : 'Rough estimate - not enough past runs yet.'}
+            {' '}The run stops at its budget of {maxCredits.toLocaleString()} credits.
+          </p>
+        </div>
+      )}
+
+      {state === 'pending' ? (
+        <div className="flex flex-wrap items-center gap-2 pl-11">
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-slate-500">Budget</span>
+            <Input
+              type="number"
+              min={1}
+              max={maxCredits || undefined}
+              value={budget}
+              onChange={(e) => setBudget(e.target.value)}
+              disabled={submitting || status !== 'ready'}
+              className="w-28 h-9 bg-white/5 border-white/10 rounded-xl px-3 text-sm text-white"
+            />
+            <span className="text-xs text-slate-500">credits</span>
+          </div>
+          {searchProviders.length > 1 && (
+            <label className="flex items-center gap-2 text-xs text-slate-500">
+              Search
+              <select
+                value={searchProvider}
+                onChange={(e) => setSearchProvider(e.target.value)}
+                disabled={submitting || status !== 'ready'}
+                className="h-9 bg-white/5 border border-white/10 rounded-xl px-2 text-sm text-white"
+              >
+                <option value="" className="bg-slate-900">Default</option>
+                {searchProviders.map(name => (
+                  <option key={name} value={name} className="bg-slate-900">{name}</option>
+                ))}
+              </select>
+            </label>
+          )}
+          <label className="flex items-center gap-2 text-xs text-slate-500 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={approvePlan}
+              onChange={(e) => setApprovePlan(e.target.checked)}
+              disabled={submitting || status !== 'ready'}
+              className="accent-blue-500"
+            />
+            Approve each plan
+          </label>
+          <Button
+            onClick={() => handle('start')}
+            disabled={submitting || status !== 'ready'}
+            className="h-9 px-4 bg-white text-black hover:bg-slate-200 rounded-xl text-xs font-bold transition-all active:scale-95"
+          >
+            {submitting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : 'Start research'}
+          </Button>
+          <Button
+            onClick={() => handle('cancel')}
+            disabled={submitting || status !== 'ready'}
+            variant="ghost"
+            className="h-9 px-3 text-slate-500 hover:text-white hover:bg-white/5 rounded-xl font-medium text-xs"
+          >
+            Cancel
+          </Button>
+        </div>
+      ) : (
+        <div className="pl-11">
+          <div className={cn(
+            "inline-flex items-center gap-1.5 px-3 py-1 text-xs font-semibold rounded-full border",
+            state === 'accepted'
+              ? "bg-blue-500/10 text-blue-400 border-blue-500/20"
+              : "bg-white/5 text-slate-500 border-white/10"
+          )}>
+            {state === 'accepted' ? <Check className="w-3 h-3" /> : <XCircle className="w-3 h-3" />}
+            {state === 'accepted' ? 'Started' : 'Cancelled'}
           </div>
         </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Approval mode: the round's proposed questions - edit, remove or add, then approve to run them
+ */
+function PlanApproval({ round, questions, state, onApprove }: {
+  round: number;
+  questions: PlanQuestion[];
+  state: 'pending' | 'submitted' | 'approved';
+  onApprove: (round: number, questions: PlanQuestion[]) => Promise<void>;
+}) {
+  const [plan, setPlan] = useState<PlanQuestion[]>(questions);
+  const [submitting, setSubmitting] = useState(false);
+  const editable = state === 'pending' && !submitting;
+  const valid = plan.length > 0 && plan.every(q => q.question.trim());
+
+  const update = (index: number, question: string) =>
+    setPlan(prev => prev.map((q, i) => (i === index ? { ...q, question } : q)));
+
+  const approve = async () => {
+    if (!editable || !valid) return;
+    setSubmitting(true);
+    await onApprove(round, plan);
+    setSubmitting(false);
+  };
+
+  return (
+    <div className="space-y-4 mt-2 p-5 rounded-2xl bg-white/2 border border-white/5 animate-in fade-in slide-in-from-bottom-2 duration-500">
+      <div className="flex items-center justify-between">
+        <p className="text-[10px] font-bold uppercase tracking-widest text-slate-500">
+          Plan for round {round}
+        </p>
+        {state !== 'pending' && (
+          <div className="inline-flex items-center gap-1.5 px-3 py-1 text-xs font-semibold rounded-full border bg-blue-500/10 text-blue-400 border-blue-500/20">
+            <Check className="w-3 h-3" />
+            {state === 'approved' ? 'Approved' : 'Sent'}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        {plan.map((q, i) => (
+          <div key={q.id || `new-${i}`} className="flex items-start gap-2">
+            <div className="flex-1 space-y-1">
+              <Input
+                value={q.question}
+                onChange={(e) => update(i, e.target.value)}
+                disabled={!editable}
+                placeholder="Research question..."
+                className="h-9 bg-white/5 border-white/10 rounded-xl px-3 text-sm text-white"
+              />
+              {q.description && <p className="px-1 text-[11px] text-slate-500">{q.description}</p>}
+            </div>
+            {editable && (
+              <Button
+                onClick={() => setPlan(prev => prev.filter((_, j) => j !== i))}
+                variant="ghost"
+                size="icon"
+                className="h-9 w-9 text-slate-500 hover:text-red-400 hover:bg-white/5 rounded-xl"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </Button>
+            )}
+          </div>
+        ))}
       </div>
+
+      {editable && (
+        <div className="flex flex-wrap items-center gap-2">
+          <Button
+            onClick={() => setPlan(prev => [...prev, { question: '', description: '', goal: '' }])}
+            variant="ghost"
+            className="h-9 px-3 text-slate-500 hover:text-white hover:bg-white/5 rounded-xl font-medium text-xs"
+          >
+            <Plus className="w-3.5 h-3.5 mr-1" />
+            Add question
+          </Button>
+          <Button
+            onClick={approve}
+            disabled={!valid}
+            className="h-9 px-4 bg-white text-black hover:bg-slate-200 rounded-xl text-xs font-bold transition-all active:scale-95"
+          >
+            {submitting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : 'Approve plan'}
+          </Button>
+        </div>
+      )}
     </div>
   );
 }
@@ -510,7 +791,10 @@ export default function SessionView({ sessionId: existingSessionId }: SessionVie
     eventLog,
     intakeSearch,
     sendMessage,
+    confirmResearch,
     stopResearch,
+    steerResearch,
+    approvePlan,
     initializeSession
   } = useSession({ existingSessionId });
 
@@ -534,7 +818,8 @@ export default function SessionView({ sessionId: existingSessionId }: SessionVie
   const hasPendingMultiSelect = (() => {
     const lastAssistantMsg = [...messages].reverse().find(m => m.role === 'assistant');
     return lastAssistantMsg?.metadata?.type === 'multi_choice_select' ||
-           lastAssistantMsg?.metadata?.type === 'ask_user';
+           lastAssistantMsg?.metadata?.type === 'ask_user' ||
+           (lastAssistantMsg?.metadata?.type === 'research_confirmation' && lastAssistantMsg.metadata.status === 'pending');
   })();
 
   // Only auto-scroll on new user messages or when research completes, not during research updates
@@ -558,12 +843,19 @@ export default function SessionView({ sessionId: existingSessionId }: SessionVie
     }
   }, [eventLog, showLogs]);
 
+  // While research runs, the input sends steering notes instead of chat messages
+  const canSend = (status === 'ready' || isResearching) && !hasPendingMultiSelect;
+
   const handleSend = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!inputMessage.trim() || status !== 'ready') return;
+    if (!inputMessage.trim() || !canSend) return;
 
     const message = inputMessage.trim();
     setInputMessage('');
+    if (isResearching) {
+      await steerResearch(message);
+      return;
+    }
     await sendMessage(message);
   };
 
@@ -722,6 +1014,11 @@ export default function SessionView({ sessionId: existingSessionId }: SessionVie
                           <User className="w-4 h-4 text-slate-400" />
                         </div>
                       </div>
+                      {msg.metadata?.type === 'steering_note' && (
+                        <span className="mr-11 text-[10px] font-bold uppercase tracking-widest text-slate-500">
+                          Steering note · {msg.metadata.status === 'applied' ? 'applied' : msg.metadata.status === 'received' ? 'received' : 'queued'}
+                        </span>
+                      )}
                     </div>
                   );
                 }
@@ -763,6 +1060,32 @@ export default function SessionView({ sessionId: existingSessionId }: SessionVie
                       verdict={msg.metadata.verdict || 'unknown'}
                       critique={msg.metadata.critique || ''}
                       missing={msg.metadata.missing || []}
+                      unsupported={msg.metadata.unsupportedClaims || []}
+                    />
+                  );
+                }
+                if (msg.metadata?.type === 'plan_approval') {
+                  return (
+                    <PlanApproval
+                      key={`plan-${msg.metadata.round}-${msg.metadata.status}`}
+                      round={msg.metadata.round}
+                      questions={msg.metadata.questions || []}
+                      state={msg.metadata.status || 'pending'}
+                      onApprove={approvePlan}
+                    />
+                  );
+                }
+                if (msg.metadata?.type === 'research_confirmation') {
+                  return (
+                    <ResearchConfirmation
+                      key={idx}
+                      message={msg.content}
+                      brief={msg.metadata.brief || { objective: '' }}
+                      estimate={msg.metadata.estimate}
+                      searchProviders={msg.metadata.searchProviders}
+                      state={msg.metadata.status || 'pending'}
+                      status={status}
+                      onConfirm={confirmResearch}
                     />
                   );
                 }
@@ -811,7 +1134,11 @@ export default function SessionView({ sessionId: existingSessionId }: SessionVie
                     </div>
                   );
                 }
-                // Default Agent Message
+                // Default Agent Message (research answers: [n] markers become footnote links)
+                const citedSources: Citation[] | undefined =
+                  msg.metadata?.kind === 'research_result' && msg.metadata.sources?.length ? msg.metadata.sources : undefined;
+                const anchorPrefix = `cite-${idx}`;
+                const content = citedSources ? linkCitations(stripBibliography(msg.content), anchorPrefix) : msg.content;
                 return (
                   <div key={idx} className="flex items-start gap-5 animate-in fade-in slide-in-from-left-4 duration-700">
                     <div className="w-10 h-10 rounded-2xl bg-blue-600 flex items-center justify-center shrink-0 shadow-lg shadow-blue-500/20">
@@ -843,11 +1170,25 @@ export default function SessionView({ sessionId: existingSessionId }: SessionVie
                                 ? <code {...props} className="px-1.5 py-0.5 bg-white/10 rounded-md text-sm font-mono text-blue-300" />
                                 : <pre className="p-5 bg-white/2 rounded-2xl text-sm overflow-x-auto my-8 border border-white/5 shadow-inner"><code {...props} className="font-mono text-slate-300" /></pre>;
                             },
+                            a: ({ node, href, children, ...props }) => {
+                              if (citedSources && href?.startsWith(`#${anchorPrefix}-`)) {
+                                const source = citedSources[Number(href.split('-').pop()) - 1];
+                                return (
+                                  <sup>
+                                    <a href={href} title={source?.title} className="text-[0.7em] font-bold text-blue-400 hover:text-blue-300 no-underline">
+                                      {children}
+                                    </a>
+                                  </sup>
+                                );
+                              }
+                              return <a {...props} href={href} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline">{children}</a>;
+                            },
                           }}
                         >
-                          {msg.content}
+                          {content}
                         </ReactMarkdown>
                       </div>
+                      {citedSources && <SourceFootnotes sources={citedSources} anchorPrefix={anchorPrefix} />}
                     </div>
                   </div>
                 );
@@ -943,16 +1284,16 @@ export default function SessionView({ sessionId: existingSessionId }: SessionVie
                 type="text"
                 value={inputMessage}
                 onChange={(e) => setInputMessage(e.target.value)}
-                placeholder={hasPendingMultiSelect ? "Protocol pending selection..." : status === 'ready' ? "Initiate research query..." : "Standby..."}
-                disabled={status !== 'ready' || hasPendingMultiSelect}
+                placeholder={hasPendingMultiSelect ? "Protocol pending selection..." : isResearching ? "Steer the research (e.g. focus on pricing)..." : status === 'ready' ? "Initiate research query..." : "Standby..."}
+                disabled={!canSend}
                 className="flex-1 bg-transparent border-none h-12 px-4 text-base focus-visible:ring-0 placeholder:text-slate-600 text-white font-medium"
               />
               <Button
                 type="submit"
-                disabled={!inputMessage.trim() || status !== 'ready' || hasPendingMultiSelect}
+                disabled={!inputMessage.trim() || !canSend}
                 className={cn(
                   "h-12 w-12 rounded-[1.25rem] transition-all duration-500 shadow-xl",
-                  inputMessage.trim() && status === 'ready'
+                  inputMessage.trim() && canSend
                     ? 'bg-white text-black hover:bg-slate-200 hover:scale-105 active:scale-95'
                     : 'bg-white/5 text-slate-600 opacity-20'
                 )}
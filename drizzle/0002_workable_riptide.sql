@@ -0,0 +1,20 @@
+CREATE TABLE "research_jobs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"chat_session_id" uuid NOT NULL,
+	"research_session_id" uuid,
+	"user_id" uuid NOT NULL,
+	"brief" jsonb NOT NULL,
+	"status" text DEFAULT 'queued' NOT NULL,
+	"worker_id" text,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"heartbeat_at" timestamp,
+	"error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"started_at" timestamp,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "research_jobs" ADD CONSTRAINT "research_jobs_chat_session_id_chat_sessions_id_fk" FOREIGN KEY ("chat_session_id") REFERENCES "public"."chat_sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "research_jobs" ADD CONSTRAINT "research_jobs_research_session_id_research_sessions_id_fk" FOREIGN KEY ("research_session_id") REFERENCES "public"."research_sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "research_jobs" ADD CONSTRAINT "research_jobs_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
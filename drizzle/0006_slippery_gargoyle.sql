@@ -0,0 +1,3 @@
+ALTER TABLE "search_queries" ADD COLUMN "provider" text;--> statement-breakpoint
+ALTER TABLE "search_queries" ADD COLUMN "cache_hit" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+CREATE INDEX "search_queries_cache_idx" ON "search_queries" USING btree ("query_normalized","provider","created_at");
\ No newline at end of file
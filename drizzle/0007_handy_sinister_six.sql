@@ -0,0 +1 @@
+ALTER TABLE "search_queries" ADD COLUMN "question_id" text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "chat_sessions" ADD COLUMN "steering_notes" jsonb DEFAULT '[]'::jsonb NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "chat_sessions" ADD COLUMN "plan_approval" jsonb;
\ No newline at end of file
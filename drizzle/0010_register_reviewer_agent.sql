@@ -0,0 +1,10 @@
+-- Observatory agent for the Reviewer (lib/research/reviewer.ts) - its calls are tracked under this id
+INSERT INTO "agents" ("id", "name", "description", "model", "criteria")
+VALUES (
+  'rQ7vW2kLx9Tn',
+  'Reviewer',
+  'Critic pass over Brain.finish''s draft: checks it against the success criteria and the findings, returns pass or revise with missing criteria, unsupported claims and up to 2 follow-up questions.',
+  'gpt-5.2',
+  '[]'::jsonb
+)
+ON CONFLICT ("id") DO NOTHING;
@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
+import type { ResearchBrief } from '@/lib/agents/intake-agent';
 
 interface Message {
   role: 'user' | 'assistant' | 'system';
@@ -13,8 +14,10 @@ interface Message {
 // BrainDoc types - ResearchQuestion-based research
 interface Finding {
   id: string;
-  content: string;
+  content: string; // the claim
+  evidence?: string;
   sources: { url: string; title: string }[];
+  confidence?: 'low' | 'medium' | 'high';
   status?: 'active' | 'disqualified';
   disqualifyReason?: string;
 }
@@ -39,7 +42,11 @@ interface ResearchQuestion {
   name: string;
   question: string;
   goal: string;
-  status: 'pending' | 'running' | 'done';
+  status: 'pending' | 'running' | 'done' | 'killed';
+  parentId?: string | null;
+  dependsOn?: string[];
+  hypothesisId?: string | null;
+  mergedInto?: string | null;
   cycles: number;
   maxCycles: number;
   findings: Finding[];
@@ -53,8 +60,11 @@ interface ResearchQuestion {
 interface BrainDecision {
   id: string;
   timestamp: string;
-  action: 'spawn' | 'drill_down' | 'kill' | 'synthesize';
+  action: 'spawn' | 'drill_down' | 'kill' | 'merge' | 'synthesize';
   questionId?: string;
+  parentId?: string; // drill_down
+  intoId?: string; // merge
+  round?: number;
   reasoning: string;
 }
 
@@ -64,7 +74,7 @@ interface BrainDoc {
   successCriteria: string[];
   questions: ResearchQuestion[];
   brainLog: BrainDecision[];
-  status: 'running' | 'synthesizing' | 'complete';
+  status: 'running' | 'synthesizing' | 'complete' | 'stopped';
   finalAnswer?: string;
 }
 
@@ -95,6 +105,11 @@ interface ProgressUpdate {
   verdict?: string;
   critique?: string;
   missing?: string[];
+  unsupportedClaims?: string[]; // review: claims the findings don't back
+  followUps?: string[]; // review: follow-up questions it sent the research back for
+  reason?: string; // brain_evaluate: the brain's current research reason
+  criteriaMet?: number; // brain_evaluate: success criteria judged met so far
+  criteriaTotal?: number;
   urls?: string[];
   purpose?: string;
   results?: any[];
@@ -105,6 +120,41 @@ interface ProgressUpdate {
   task?: string;
   summary?: string;
   totalSearches?: number;
+  id?: number; // stored progress events are numbered per session (SSE replay)
+  replay?: boolean; // re-sent from storage after a reconnect/reload
+  emittedAt?: string;
+  limit?: string; // budget_exhausted: which budget limit was hit
+  brief?: ResearchBrief; // research_estimate: the proposed run
+  estimate?: CostEstimate;
+  searchProviders?: string[]; // research_estimate: search backends the run can be started with
+  cached?: boolean; // question_search: answered from the search cache
+  searchCache?: { hits: number; misses: number }; // run-wide search cache stats
+  note?: string; // steering_received: the note's text
+  noteId?: string;
+  noteIds?: string[]; // steering_applied: notes the brain has now taken into account
+  round?: number;
+  questions?: PlanQuestion[]; // plan_proposed: the round's questions waiting for approval
+  edited?: number; // plan_approved: how the user changed the proposed questions
+  removed?: number;
+  added?: number;
+}
+
+// Approval mode: a proposed question as the user edits it - no id = added by the user
+export interface PlanQuestion {
+  id?: string;
+  question: string;
+  description: string;
+  goal: string;
+}
+
+// Pre-flight cost estimate for a proposed run (lib/research/estimate.ts)
+export interface CostEstimate {
+  low: number;
+  high: number;
+  searches: { low: number; high: number };
+  basedOnRuns: number;
+  maxCredits: number;
+  overBudget?: boolean; // missing on estimates stored before it existed
 }
 
 // Event log entry for UI display
@@ -139,8 +189,11 @@ export function useSession(options: UseSessionOptions = {}) {
   const [researchDoc, setResearchDoc] = useState<BrainDoc | null>(null);
   const [eventLog, setEventLog] = useState<EventLogEntry[]>([]);
   const [intakeSearch, setIntakeSearch] = useState<{ query: string; answer?: string; status: 'searching' | 'complete' } | null>(null);
+  const [following, setFollowing] = useState(false); // subscribed to the session's event stream
 
   const eventSourceRef = useRef<EventSource | null>(null);
+  const lastEventIdRef = useRef(0); // highest numbered event applied - resubscribe from here
+  const eventTimeRef = useRef<string | null>(null); // original time of the event being replayed
   const abortControllerRef = useRef<AbortController | null>(null);
   const isResearchingRef = useRef(false);
 
@@ -153,7 +206,7 @@ export function useSession(options: UseSessionOptions = {}) {
     const entry: EventLogEntry = {
       id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
       type,
-      timestamp: new Date().toISOString(),
+      timestamp: eventTimeRef.current || new Date().toISOString(),
       label,
       detail,
       icon
@@ -185,6 +238,8 @@ export function useSession(options: UseSessionOptions = {}) {
       setBrain(session.brain || '');
       setIsResearching(session.status === 'researching');
       setStatus('ready');
+      // Replay stored events to rebuild the event log (and follow the run if one is live)
+      setFollowing(Boolean(session.brain) || session.status === 'researching');
 
       // Parse brain to extract document
       if (session.brain) {
@@ -257,433 +312,571 @@ export function useSession(options: UseSessionOptions = {}) {
     }
   }, []);
 
-  // Send message
-  const sendMessage = async (userMessage: string, options?: { skipUserBubble?: boolean }) => {
-    if (!sessionId || !userMessage.trim()) return;
+  // Apply one SSE event (from the message stream or the research job stream)
+  const processUpdate = useCallback((update: ProgressUpdate) => {
+    // Numbered events can arrive twice (message stream + replay) - apply each once
+    if (update.id) {
+      if (update.id <= lastEventIdRef.current) return;
+      lastEventIdRef.current = update.id;
+    }
+    eventTimeRef.current = update.emittedAt || null;
+
+    console.log('[SSE Event]', update.type, update);
+
+    // Document updates
+    if (update.type === 'doc_updated') {
+      if (update.doc) {
+        console.log('[doc_updated] Setting researchDoc:', update.doc);
+        setResearchDoc(update.doc);
+        setResearchProgress({
+          objective: update.doc.objective
+        });
+      }
+      const initCount = update.doc?.questions?.length || 0;
+      const searchCount = update.doc?.questions?.reduce((sum, i) => sum + (i.searches?.length || 0), 0) || 0;
+      addEvent('doc_updated', 'Document updated', `${initCount} questions, ${searchCount} searches`, 'info');
+    }
 
-    setStatus('processing');
-    setError(null);
-    setStage(null);
+    if (update.type === 'phase_added') {
+      addEvent('phase_added', 'Phase added', (update as any).title, 'log');
+    }
 
-    if (!options?.skipUserBubble) {
-      const newUserMessage: Message = {
-        role: 'user',
-        content: userMessage,
-        timestamp: new Date().toISOString()
-      };
-      setMessages(prev => [...prev, newUserMessage]);
+    if (update.type === 'phase_completed') {
+      addEvent('phase_completed', 'Phase completed', undefined, 'complete');
     }
 
-    try {
-      abortControllerRef.current?.abort();
-      abortControllerRef.current = new AbortController();
+    if (update.type === 'iteration_started') {
+      addEvent('iteration_started', `Iteration ${update.iteration}`, update.action as any, 'phase');
+    }
 
-      const response = await fetch(`/api/sessions/${sessionId}/message`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ message: userMessage }),
-        signal: abortControllerRef.current.signal
-      });
+    if (update.type === 'reflection_started') {
+      setStage('reflecting');
+      addEvent('reflection_started', 'Analyzing findings', 'Deciding what to add to document...', 'reflect');
+    }
 
-      if (!response.ok) {
-        throw new Error('Failed to send message');
+    if (update.type === 'reflection_completed') {
+      setStage(null);
+      addEvent('reflection_completed', 'Reflection complete', undefined, 'reflect');
+
+      if (update.reasoning) {
+        setMessages(prev => [...prev, {
+          role: 'assistant' as const,
+          content: '',
+          timestamp: new Date().toISOString(),
+          metadata: {
+            type: 'reasoning',
+            reflection: update.reasoning
+          }
+        }]);
       }
+    }
 
-      if (!response.body) {
-        throw new Error('No response body');
-      }
+    if (update.type === 'search_agent_started') {
+      addEvent('search_agent_started', 'Search agent started', update.task as any, 'search');
+    }
 
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
-      let buffer = '';
+    if (update.type === 'search_agent_completed') {
+      addEvent('search_agent_completed', 'Search agent complete', update.summary as any, 'search');
+    }
 
-      const processUpdate = (update: ProgressUpdate) => {
-        console.log('[SSE Event]', update.type, update);
+    if (update.type === 'research_initialized') {
+      addEvent('research_initialized', 'Research initialized', `Objective: ${update.objective?.substring(0, 40)}...`, 'info');
+    }
 
-        // Document updates
-        if (update.type === 'doc_updated') {
-          if (update.doc) {
-            console.log('[doc_updated] Setting researchDoc:', update.doc);
-            setResearchDoc(update.doc);
-            setResearchProgress({
-              objective: update.doc.objective
-            });
-          }
-          const initCount = update.doc?.questions?.length || 0;
-          const searchCount = update.doc?.questions?.reduce((sum, i) => sum + (i.searches?.length || 0), 0) || 0;
-          addEvent('doc_updated', 'Document updated', `${initCount} questions, ${searchCount} searches`, 'info');
-        }
+    if (update.type === 'phase_change') {
+      addEvent('phase_change', `Phase: ${update.phase}`, undefined, 'phase');
+    }
 
-        if (update.type === 'phase_added') {
-          addEvent('phase_added', 'Phase added', (update as any).title, 'log');
-        }
+    if (update.type === 'research_stopped') {
+      setStage(null);
+      addEvent('research_stopped', 'Research stopped', `${(update as any).totalQuestions || 0} questions`, 'info');
+    }
 
-        if (update.type === 'phase_completed') {
-          addEvent('phase_completed', 'Phase completed', undefined, 'complete');
-        }
+    if (update.type === 'budget_exhausted') {
+      addEvent('budget_exhausted', `Budget reached (${update.limit})`, 'Writing the answer with what we have...', 'info');
+    }
 
-        if (update.type === 'iteration_started') {
-          addEvent('iteration_started', `Iteration ${update.iteration}`, update.action as any, 'phase');
-        }
+    if (update.type === 'review_started') {
+      addEvent('review_started', 'Reviewing draft', 'Checking it against the success criteria...', 'reflect');
+    }
 
-        if (update.type === 'reflection_started') {
-          setStage('reflecting');
-          addEvent('reflection_started', 'Analyzing findings', 'Deciding what to add to document...', 'reflect');
+    if (update.type === 'review') {
+      const followUps = update.followUps || [];
+      addEvent(
+        'review',
+        update.verdict === 'pass' ? 'Review passed' : 'Review: needs revision',
+        followUps.length > 0 ? `${followUps.length} follow-up question${followUps.length === 1 ? '' : 's'}` : update.critique?.substring(0, 60),
+        'reflect'
+      );
+      setMessages(prev => [...prev, {
+        role: 'assistant',
+        content: '',
+        timestamp: new Date().toISOString(),
+        metadata: {
+          type: 'review_result',
+          verdict: update.verdict,
+          critique: update.critique,
+          missing: update.missing || [],
+          unsupportedClaims: update.unsupportedClaims || [],
         }
+      }]);
+    }
 
-        if (update.type === 'reflection_completed') {
-          setStage(null);
-          addEvent('reflection_completed', 'Reflection complete', undefined, 'reflect');
-
-          if (update.reasoning) {
-            setMessages(prev => [...prev, {
-              role: 'assistant' as const,
-              content: '',
-              timestamp: new Date().toISOString(),
-              metadata: {
-                type: 'reasoning',
-                reflection: update.reasoning
-              }
-            }]);
-          }
-        }
+    if (update.type === 'research_complete') {
+      const hits = update.searchCache?.hits || 0;
+      addEvent('research_complete', 'Research complete', `${update.totalSearches} searches${hits ? ` (${hits} from cache)` : ''}`, 'complete');
+    }
 
-        if (update.type === 'search_agent_started') {
-          addEvent('search_agent_started', 'Search agent started', update.task as any, 'search');
-        }
+    if (update.type === 'analyzing') {
+      setStatus('processing');
+      setIntakeSearch(null);
+      addEvent('analyzing', 'Analyzing message', 'Understanding your request...', 'info');
+    }
 
-        if (update.type === 'search_agent_completed') {
-          addEvent('search_agent_completed', 'Search agent complete', update.summary as any, 'search');
-        }
+    // Intake search events
+    if (update.type === 'intake_searching') {
+      setIntakeSearch({ query: update.query || 'Looking up...', status: 'searching' });
+      addEvent('intake_searching', 'Looking up', update.query || '', 'search');
+    }
 
-        if (update.type === 'research_initialized') {
-          addEvent('research_initialized', 'Research initialized', `Objective: ${update.objective?.substring(0, 40)}...`, 'info');
-        }
+    if (update.type === 'intake_search_complete') {
+      setIntakeSearch(null); // Clear the indicator
+      addEvent('intake_search_complete', 'Lookup complete', update.answer?.substring(0, 100) || '', 'search');
 
-        if (update.type === 'phase_change') {
-          addEvent('phase_change', `Phase: ${update.phase}`, undefined, 'phase');
+      // Add search result as a message (route also saves it to DB, so a replay already has it)
+      if (update.replay) return;
+      const searchMessage: Message = {
+        role: 'assistant',
+        content: `Looked up "${update.query}"`,
+        timestamp: new Date().toISOString(),
+        metadata: {
+          type: 'intake_search',
+          query: update.query,
+          answer: update.answer
         }
+      };
+      setMessages(prev => [...prev, searchMessage]);
+    }
 
-        if (update.type === 'research_complete') {
-          addEvent('research_complete', 'Research complete', `${update.totalSearches} searches`, 'complete');
-        }
+    if (update.type === 'decision') {
+      addEvent('decision', `Decision: ${update.decision}`, update.reasoning, 'info');
+    }
 
-        if (update.type === 'analyzing') {
-          setStatus('processing');
-          setIntakeSearch(null);
-          addEvent('analyzing', 'Analyzing message', 'Understanding your request...', 'info');
-        }
+    if (update.type === 'research_started') {
+      setEventLog([]);
+      if (update.replay) {
+        // Replaying a run we already loaded - just restart the log
+        addEvent('research_started', 'Research started', update.objective?.substring(0, 50) + '...', 'info');
+        return;
+      }
+      setResearchDoc(null);
+      setIsResearching(true);
+      setStatus('researching');
+      setResearchProgress({
+        objective: update.objective,
+        iteration: 0
+      });
+      addEvent('research_started', 'Research started', update.objective?.substring(0, 50) + '...', 'info');
+    }
 
-        // Intake search events
-        if (update.type === 'intake_searching') {
-          setIntakeSearch({ query: update.query || 'Looking up...', status: 'searching' });
-          addEvent('intake_searching', 'Looking up', update.query || '', 'search');
+    // Proposed run waiting for the user - answered through confirmResearch()
+    if (update.type === 'research_estimate') {
+      setMessages(prev => [...prev, {
+        role: 'assistant',
+        content: update.message || '',
+        timestamp: new Date().toISOString(),
+        metadata: {
+          type: 'research_confirmation',
+          brief: update.brief,
+          estimate: update.estimate,
+          searchProviders: update.searchProviders,
+          status: 'pending'
         }
+      }]);
+    }
 
-        if (update.type === 'intake_search_complete') {
-          setIntakeSearch(null); // Clear the indicator
-          addEvent('intake_search_complete', 'Lookup complete', update.answer?.substring(0, 100) || '', 'search');
+    // Research runs as a background job - progress arrives on /api/sessions/[id]/stream
+    if (update.type === 'research_queued') {
+      addEvent('research_queued', 'Research queued', 'Waiting for a worker...', 'info');
+    }
 
-          // Add search result as a message (in React state only, not saved to DB)
-          const searchMessage: Message = {
-            role: 'assistant',
-            content: `Looked up "${update.query}"`,
-            timestamp: new Date().toISOString(),
-            metadata: {
-              type: 'intake_search',
-              query: update.query,
-              answer: update.answer
-            }
-          };
-          setMessages(prev => [...prev, searchMessage]);
-        }
+    if (update.type === 'search_started') {
+      setStage('searching');
+      addEvent('search_started', 'Searching...', '', 'search');
+    }
 
-        if (update.type === 'decision') {
-          addEvent('decision', `Decision: ${update.decision}`, update.reasoning, 'info');
-        }
+    if (update.type === 'search_completed') {
+      setStage(null);
+      const completedQueries = (update as any).queries || [];
+      addEvent('search_completed', `Search complete`, `${completedQueries.length} results`, 'search');
+
+      if (completedQueries.length > 0) {
+        setMessages(prev => [...prev, {
+          role: 'assistant' as const,
+          content: '',
+          timestamp: new Date().toISOString(),
+          metadata: {
+            type: 'search_batch',
+            queries: completedQueries
+          }
+        }]);
+      }
+    }
 
-        if (update.type === 'research_started') {
-          setEventLog([]);
-          setResearchDoc(null);
-          setIsResearching(true);
-          setStatus('researching');
-          setResearchProgress({
-            objective: update.objective,
-            iteration: 0
-          });
-          addEvent('research_started', 'Research started', update.objective?.substring(0, 50) + '...', 'info');
-        }
+    // ========== BRAIN EVENTS ==========
 
-        if (update.type === 'search_started') {
-          setStage('searching');
-          addEvent('search_started', 'Searching...', '', 'search');
-        }
+    // ResearchQuestion search events
+    if (update.type === 'question_search_started') {
+      setStage('searching');
+      const queries = (update as any).queries || [];
+      addEvent('search_started', 'Searching...', queries.map((q: any) => q.query || q).join(', ').substring(0, 60), 'search');
+    }
 
-        if (update.type === 'search_completed') {
-          setStage(null);
-          const completedQueries = (update as any).queries || [];
-          addEvent('search_completed', `Search complete`, `${completedQueries.length} results`, 'search');
-
-          if (completedQueries.length > 0) {
-            setMessages(prev => [...prev, {
-              role: 'assistant' as const,
-              content: '',
-              timestamp: new Date().toISOString(),
-              metadata: {
-                type: 'search_batch',
-                queries: completedQueries
-              }
-            }]);
+    if (update.type === 'question_search_completed') {
+      setStage(null);
+      const completedQueries = (update as any).queries || [];
+      addEvent('search_completed', `Search complete`, `${completedQueries.length} queries`, 'search');
+
+      if (completedQueries.length > 0) {
+        setMessages(prev => [...prev, {
+          role: 'assistant' as const,
+          content: '',
+          timestamp: new Date().toISOString(),
+          metadata: {
+            type: 'search_batch',
+            queries: completedQueries
           }
-        }
+        }]);
+      }
+    }
 
-        // ========== BRAIN EVENTS ==========
+    if (update.type === 'question_search' && update.cached) {
+      const hits = update.searchCache?.hits || 0;
+      addEvent('search_cached', 'Cached search', `${(update.query || '').substring(0, 50)} (${hits} cache hits this run)`, 'search');
+    }
 
-        // ResearchQuestion search events
-        if (update.type === 'question_search_started') {
-          setStage('searching');
-          const queries = (update as any).queries || [];
-          addEvent('search_started', 'Searching...', queries.map((q: any) => q.query || q).join(', ').substring(0, 60), 'search');
-        }
+    // ResearchQuestion lifecycle events
+    if (update.type === 'question_started') {
+      const name = (update as any).name || '';
+      addEvent('question_started', 'ResearchQuestion started', name.substring(0, 50), 'phase');
+    }
 
-        if (update.type === 'question_search_completed') {
-          setStage(null);
-          const completedQueries = (update as any).queries || [];
-          addEvent('search_completed', `Search complete`, `${completedQueries.length} queries`, 'search');
-
-          if (completedQueries.length > 0) {
-            setMessages(prev => [...prev, {
-              role: 'assistant' as const,
-              content: '',
-              timestamp: new Date().toISOString(),
-              metadata: {
-                type: 'search_batch',
-                queries: completedQueries
-              }
-            }]);
-          }
-        }
+    if (update.type === 'question_cycle_started') {
+      const cycle = (update as any).cycle || 0;
+      const name = (update as any).name || '';
+      addEvent('question_cycle', `Cycle ${cycle}`, name.substring(0, 40), 'phase');
+    }
 
-        // ResearchQuestion lifecycle events
-        if (update.type === 'question_started') {
-          const name = (update as any).name || '';
-          addEvent('question_started', 'ResearchQuestion started', name.substring(0, 50), 'phase');
-        }
+    if (update.type === 'question_reflection') {
+      const learned = (update as any).learned || '';
+      const nextStep = (update as any).nextStep || '';
+      addEvent('reflection', `Learned: ${learned.substring(0, 30)}`, nextStep.substring(0, 40), 'reflect');
+    }
 
-        if (update.type === 'question_cycle_started') {
-          const cycle = (update as any).cycle || 0;
-          const name = (update as any).name || '';
-          addEvent('question_cycle', `Cycle ${cycle}`, name.substring(0, 40), 'phase');
-        }
+    if (update.type === 'question_completed') {
+      const confidence = (update as any).confidence || '';
+      const recommendation = (update as any).recommendation || '';
+      addEvent('question_done', `ResearchQuestion complete (${confidence})`, recommendation, 'complete');
+    }
 
-        if (update.type === 'question_reflection') {
-          const learned = (update as any).learned || '';
-          const nextStep = (update as any).nextStep || '';
-          addEvent('reflection', `Learned: ${learned.substring(0, 30)}`, nextStep.substring(0, 40), 'reflect');
-        }
+    // Brain decision events
+    if (update.type === 'brain_initialized') {
+      addEvent('brain_init', 'Brain initialized', (update as any).objective?.substring(0, 50), 'info');
+    }
 
-        if (update.type === 'question_completed') {
-          const confidence = (update as any).confidence || '';
-          const recommendation = (update as any).recommendation || '';
-          addEvent('question_done', `ResearchQuestion complete (${confidence})`, recommendation, 'complete');
-        }
+    if (update.type === 'brain_generating_questions') {
+      addEvent('brain_gen', 'Generating questions', `Creating ${(update as any).count || 3} research angles`, 'plan');
+    }
 
-        // Brain decision events
-        if (update.type === 'brain_initialized') {
-          addEvent('brain_init', 'Brain initialized', (update as any).objective?.substring(0, 50), 'info');
-        }
+    if (update.type === 'brain_questions_generated') {
+      const count = (update as any).count || 0;
+      addEvent('brain_ready', `${count} questions ready`, 'Starting research...', 'plan');
+    }
 
-        if (update.type === 'brain_generating_questions') {
-          addEvent('brain_gen', 'Generating questions', `Creating ${(update as any).count || 3} research angles`, 'plan');
-        }
+    if (update.type === 'brain_strategy') {
+      const approach = (update as any).approach || '';
+      const strategy = (update as any).strategy || '';
+      addEvent('brain_strategy', 'Research strategy', approach.substring(0, 100), 'plan');
+    }
 
-        if (update.type === 'brain_questions_generated') {
-          const count = (update as any).count || 0;
-          addEvent('brain_ready', `${count} questions ready`, 'Starting research...', 'plan');
-        }
+    if (update.type === 'brain_evaluate') {
+      const criteria = update.criteriaTotal ? ` · ${update.criteriaMet}/${update.criteriaTotal} criteria met` : '';
+      addEvent('brain_evaluate', update.decision === 'done' ? 'Ready to answer' : 'Planning next round', `${(update.reason || '').substring(0, 60)}${criteria}`, 'plan');
+    }
 
-        if (update.type === 'brain_strategy') {
-          const approach = (update as any).approach || '';
-          const strategy = (update as any).strategy || '';
-          addEvent('brain_strategy', 'Research strategy', approach.substring(0, 100), 'plan');
-        }
+    if (update.type === 'brain_evaluating') {
+      addEvent('brain_eval', 'Evaluating progress', 'Deciding next steps...', 'reflect');
+    }
 
-        if (update.type === 'brain_evaluating') {
-          addEvent('brain_eval', 'Evaluating progress', 'Deciding next steps...', 'reflect');
-        }
+    if (update.type === 'brain_decision') {
+      const decision = (update as any).decision || '';
+      const reasoning = (update as any).reasoning || '';
+      addEvent('brain_decision', `Decision: ${decision}`, reasoning.substring(0, 60), 'plan');
+    }
 
-        if (update.type === 'brain_decision') {
-          const decision = (update as any).decision || '';
-          const reasoning = (update as any).reasoning || '';
-          addEvent('brain_decision', `Decision: ${decision}`, reasoning.substring(0, 60), 'plan');
-        }
+    if (update.type === 'brain_synthesizing') {
+      setStage('synthesizing');
+      addEvent('synthesizing', 'Synthesizing answer', 'Combining all findings...', 'complete');
+    }
 
-        if (update.type === 'brain_synthesizing') {
-          setStage('synthesizing');
-          addEvent('synthesizing', 'Synthesizing answer', 'Combining all findings...', 'complete');
-        }
+    if (update.type === 'steering_received') {
+      addEvent('steering_received', 'Steering note received', update.note?.substring(0, 60), 'info');
+      setMessages(prev => {
+        const exists = prev.some(m => m.metadata?.type === 'steering_note' && m.metadata.noteId === update.noteId);
+        const marked = prev.map(m => m.metadata?.type === 'steering_note' && m.metadata.noteId === update.noteId
+          ? { ...m, metadata: { ...m.metadata, status: 'received' } }
+          : m);
+        return exists ? marked : [...prev, {
+          role: 'user' as const,
+          content: update.note || '',
+          timestamp: new Date().toISOString(),
+          metadata: { type: 'steering_note', noteId: update.noteId, status: 'received' }
+        }];
+      });
+    }
+
+    if (update.type === 'steering_applied') {
+      const ids = update.noteIds || [];
+      addEvent('steering_applied', 'Steering applied', `${ids.length} note${ids.length === 1 ? '' : 's'} in round ${update.round}`, 'plan');
+      setMessages(prev => prev.map(m => m.metadata?.type === 'steering_note' && ids.includes(m.metadata.noteId)
+        ? { ...m, metadata: { ...m.metadata, status: 'applied' } }
+        : m));
+    }
 
-        if (update.type === 'question_spawned') {
-          const name = (update as any).name || '';
-          addEvent('spawn', 'New question', name.substring(0, 50), 'plan');
+    // Approval mode: the run waits until the plan is approved through approvePlan()
+    if (update.type === 'plan_proposed') {
+      addEvent('plan_proposed', 'Plan waiting for approval', `${(update.questions || []).length} questions in round ${update.round}`, 'plan');
+      const planMessage: Message = {
+        role: 'assistant',
+        content: '',
+        timestamp: new Date().toISOString(),
+        metadata: { type: 'plan_approval', round: update.round, questions: update.questions || [], status: 'pending' }
+      };
+      // A resumed run proposes the same round again - keep one card per round
+      setMessages(prev => prev.some(m => m.metadata?.type === 'plan_approval' && m.metadata.round === update.round)
+        ? prev
+        : [...prev, planMessage]);
+    }
+
+    if (update.type === 'plan_approved') {
+      addEvent('plan_approved', 'Plan approved', `${update.edited} edited, ${update.removed} removed, ${update.added} added`, 'plan');
+      setMessages(prev => prev.map(m => m.metadata?.type === 'plan_approval' && m.metadata.round === update.round
+        ? { ...m, metadata: { ...m.metadata, status: 'approved' } }
+        : m));
+    }
+
+    if (update.type === 'brain_action') {
+      const question = (update.question || '').substring(0, 50);
+      if (update.action === 'kill') addEvent('kill', 'Question dropped', question, 'plan');
+      if (update.action === 'merge') addEvent('merge', 'Duplicate merged', question, 'plan');
+      if (update.action === 'drill_down') addEvent('drill_down', 'Drilling down', question, 'plan');
+    }
+
+    if (update.type === 'question_spawned') {
+      const name = (update as any).name || '';
+      addEvent('spawn', 'New question', name.substring(0, 50), 'plan');
+    }
+
+    if (update.type === 'extract_started') {
+      setStage('searching');
+      addEvent('extract_started', `Extracting (${(update.urls || []).length} URLs)`, update.purpose || '', 'search');
+      setMessages(prev => [...prev, {
+        role: 'assistant' as const,
+        content: '',
+        timestamp: new Date().toISOString(),
+        metadata: {
+          type: 'extract_batch',
+          questionId: update.questionId,
+          urls: update.urls,
+          purpose: update.purpose,
+          status: 'extracting',
+          results: []
         }
+      }]);
+    }
 
-        if (update.type === 'extract_started') {
-          setStage('searching');
-          addEvent('extract_started', `Extracting (${(update.urls || []).length} URLs)`, update.purpose || '', 'search');
-          setMessages(prev => [...prev, {
-            role: 'assistant' as const,
-            content: '',
-            timestamp: new Date().toISOString(),
+    if (update.type === 'extract_completed') {
+      setStage(null);
+      addEvent('extract_completed', `Extract complete`, `${(update.results || []).length} pages extracted`, 'search');
+      setMessages(prev => {
+        // Questions read in parallel - close the batch this question opened
+        const batchIdx = prev.findLastIndex(m =>
+          m.metadata?.type === 'extract_batch' && m.metadata?.status === 'extracting' &&
+          m.metadata?.questionId === update.questionId
+        );
+        if (batchIdx !== -1) {
+          const newMessages = [...prev];
+          newMessages[batchIdx] = {
+            ...newMessages[batchIdx],
             metadata: {
               type: 'extract_batch',
-              urls: update.urls,
+              questionId: update.questionId,
               purpose: update.purpose,
-              status: 'extracting',
-              results: []
+              status: 'complete',
+              results: update.results,
+              failed: update.failed
             }
-          }]);
-        }
-
-        if (update.type === 'extract_completed') {
-          setStage(null);
-          addEvent('extract_completed', `Extract complete`, `${(update.results || []).length} pages extracted`, 'search');
-          setMessages(prev => {
-            const batchIdx = prev.findLastIndex(m =>
-              m.metadata?.type === 'extract_batch' && m.metadata?.status === 'extracting'
-            );
-            if (batchIdx !== -1) {
-              const newMessages = [...prev];
-              newMessages[batchIdx] = {
-                ...newMessages[batchIdx],
-                metadata: {
-                  type: 'extract_batch',
-                  purpose: update.purpose,
-                  status: 'complete',
-                  results: update.results,
-                  failed: update.failed
-                }
-              };
-              return newMessages;
-            }
-            return prev;
-          });
+          };
+          return newMessages;
         }
+        return prev;
+      });
+    }
 
-        if (update.type === 'ask_user') {
-          setMessages(prev => [...prev, {
-            role: 'assistant',
-            content: '',
-            timestamp: new Date().toISOString(),
-            metadata: {
-              type: 'ask_user',
-              question: update.question,
-              options: update.options
-            }
-          }]);
+    if (update.type === 'ask_user') {
+      setMessages(prev => [...prev, {
+        role: 'assistant',
+        content: '',
+        timestamp: new Date().toISOString(),
+        metadata: {
+          type: 'ask_user',
+          question: update.question,
+          options: update.options
         }
+      }]);
+    }
 
-        if (update.type === 'multi_choice_select') {
-          setMessages(prev => [...prev, {
-            role: 'assistant',
-            content: '',
-            timestamp: new Date().toISOString(),
-            metadata: {
-              type: 'multi_choice_select',
-              question: update.question,
-              options: update.options,
-              reason: (update as any).reason
-            }
-          }]);
+    if (update.type === 'multi_choice_select') {
+      setMessages(prev => [...prev, {
+        role: 'assistant',
+        content: '',
+        timestamp: new Date().toISOString(),
+        metadata: {
+          type: 'multi_choice_select',
+          question: update.question,
+          options: update.options,
+          reason: (update as any).reason
         }
+      }]);
+    }
 
-        if (update.type === 'reasoning_started') {
-          setStage('reflecting');
-          addEvent('reasoning_started', 'Reflecting', 'Analyzing what was learned...', 'reflect');
-        }
+    if (update.type === 'reasoning_started') {
+      setStage('reflecting');
+      addEvent('reasoning_started', 'Reflecting', 'Analyzing what was learned...', 'reflect');
+    }
 
-        if (update.type === 'synthesizing_started') {
-          setStage('synthesizing');
-          addEvent('synthesizing_started', 'Synthesizing', 'Writing final answer...', 'complete');
-        }
+    if (update.type === 'synthesizing_started') {
+      setStage('synthesizing');
+      addEvent('synthesizing_started', 'Synthesizing', 'Writing final answer...', 'complete');
+    }
 
-        if (update.type === 'research_iteration') {
-          setMessages(prev => [...prev, {
-            role: 'assistant',
-            content: '',
-            timestamp: new Date().toISOString(),
-            metadata: { ...update }
-          }]);
-          setResearchProgress(prev => ({
-            ...prev,
-            iteration: update.iteration
-          }));
-        }
+    if (update.type === 'research_iteration') {
+      setMessages(prev => [...prev, {
+        role: 'assistant',
+        content: '',
+        timestamp: new Date().toISOString(),
+        metadata: { ...update }
+      }]);
+      setResearchProgress(prev => ({
+        ...prev,
+        iteration: update.iteration
+      }));
+    }
 
-        if (update.type === 'brain_update') {
-          setBrain(update.brain || '');
-          if (update.brain) {
-            try {
-              const parsed = JSON.parse(update.brain);
-              // BrainDoc (version 1)
-              if (parsed.version === 1) {
-                console.log('[brain_update] Setting researchDoc from brain:', parsed);
-                setResearchDoc(parsed as BrainDoc);
-                // Insert a single "anchor" message so ResearchProgress appears inline in the chat flow.
-                // This prevents other messages (e.g., reviewer) from visually stacking "above" the research UI.
-                setMessages(prev => {
-                  const alreadyHasAnchor = prev.some(m => m.metadata?.type === 'research_progress');
-                  if (alreadyHasAnchor) return prev;
-                  return [
-                    ...prev,
-                    {
-                      role: 'assistant' as const,
-                      content: '',
-                      timestamp: new Date().toISOString(),
-                      metadata: { type: 'research_progress' }
-                    }
-                  ];
-                });
-              }
-            } catch {
-              // Invalid JSON
-            }
+    if (update.type === 'brain_update') {
+      setBrain(update.brain || '');
+      if (update.brain) {
+        try {
+          const parsed = JSON.parse(update.brain);
+          // BrainDoc (version 1)
+          if (parsed.version === 1) {
+            console.log('[brain_update] Setting researchDoc from brain:', parsed);
+            setResearchDoc(parsed as BrainDoc);
+            // Insert a single "anchor" message so ResearchProgress appears inline in the chat flow.
+            // This prevents other messages (e.g., reviewer) from visually stacking "above" the research UI.
+            setMessages(prev => {
+              const alreadyHasAnchor = prev.some(m => m.metadata?.type === 'research_progress');
+              if (alreadyHasAnchor) return prev;
+              return [
+                ...prev,
+                {
+                  role: 'assistant' as const,
+                  content: '',
+                  timestamp: new Date().toISOString(),
+                  metadata: { type: 'research_progress' }
+                }
+              ];
+            });
           }
+        } catch {
+          // Invalid JSON
         }
+      }
+    }
 
-        if (update.type === 'reasoning') {
-          setStage(null);
-          setMessages(prev => [...prev, {
-            role: 'assistant',
-            content: '',
-            timestamp: new Date().toISOString(),
-            metadata: { type: 'reasoning', reflection: update.reflection }
-          }]);
-        }
+    if (update.type === 'reasoning') {
+      setStage(null);
+      setMessages(prev => [...prev, {
+        role: 'assistant',
+        content: '',
+        timestamp: new Date().toISOString(),
+        metadata: { type: 'reasoning', reflection: update.reflection }
+      }]);
+    }
 
-        if (update.type === 'message') {
-          const assistantMessage: Message = {
-            role: 'assistant',
-            content: update.message || '',
-            timestamp: new Date().toISOString(),
-            metadata: update.metadata
-          };
-          setMessages(prev => [...prev, assistantMessage]);
-        }
+    if (update.type === 'message') {
+      const assistantMessage: Message = {
+        role: 'assistant',
+        content: update.message || '',
+        timestamp: new Date().toISOString(),
+        metadata: update.metadata
+      };
+      setMessages(prev => [...prev, assistantMessage]);
+    }
 
-        if (update.type === 'complete') {
-          setStatus('ready');
-          setIsResearching(false);
-          setStage(null);
-        }
+    if (update.type === 'complete') {
+      setStatus('ready');
+      setIsResearching(false);
+      setStage(null);
+    }
 
-        if (update.type === 'error') {
-          setError(update.message || 'An error occurred');
-          setStatus('error');
-          setIsResearching(false);
-          setStage(null);
-        }
+    if (update.type === 'error') {
+      setError(update.message || 'An error occurred');
+      setStatus('error');
+      setIsResearching(false);
+      setStage(null);
+    }
+  }, [addEvent]);
+
+  // Send message
+  const sendMessage = async (userMessage: string, options?: { skipUserBubble?: boolean }) => {
+    if (!sessionId || !userMessage.trim()) return;
+
+    setStatus('processing');
+    setError(null);
+    setStage(null);
+
+    if (!options?.skipUserBubble) {
+      const newUserMessage: Message = {
+        role: 'user',
+        content: userMessage,
+        timestamp: new Date().toISOString()
       };
+      setMessages(prev => [...prev, newUserMessage]);
+    }
+
+    try {
+      abortControllerRef.current?.abort();
+      abortControllerRef.current = new AbortController();
+
+      const response = await fetch(`/api/sessions/${sessionId}/message`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message: userMessage }),
+        signal: abortControllerRef.current.signal
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to send message');
+      }
+
+      if (!response.body) {
+        throw new Error('No response body');
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
 
       while (true) {
         const { done, value } = await reader.read();
@@ -715,6 +908,51 @@ export function useSession(options: UseSessionOptions = {}) {
       setError(err.message);
       setStatus('error');
       setIsResearching(false);
+    } finally {
+      abortControllerRef.current = null;
+    }
+  };
+
+  // Start (optionally with a smaller credit budget) or cancel the proposed research run
+  const confirmResearch = async (
+    action: 'start' | 'cancel',
+    maxCredits?: number,
+    approvePlan?: boolean,
+    searchProvider?: string // unset = the server's default provider
+  ) => {
+    if (!sessionId) return;
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/confirm`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, maxCredits, approvePlan, searchProvider })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to confirm research');
+      }
+
+      setMessages(prev => prev.map(m =>
+        m.metadata?.type === 'research_confirmation' && m.metadata.status === 'pending'
+          ? { ...m, metadata: { ...m.metadata, status: data.status === 'started' ? 'accepted' : 'cancelled', brief: data.brief || m.metadata.brief } }
+          : m
+      ));
+
+      if (data.status === 'cancelled') {
+        setMessages(prev => [...prev, data.message]);
+        return;
+      }
+
+      // The job stream replays research_started/research_queued from storage
+      setResearchDoc(null);
+      setResearchProgress({ objective: data.brief?.objective, iteration: 0 });
+      setIsResearching(true);
+      setStatus('researching');
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
     }
   };
 
@@ -723,16 +961,100 @@ export function useSession(options: UseSessionOptions = {}) {
     if (!sessionId) return;
 
     try {
-      abortControllerRef.current?.abort();
-      await fetch(`/api/sessions/${sessionId}/stop`, { method: 'POST' });
+      const response = await fetch(`/api/sessions/${sessionId}/stop`, { method: 'POST' });
       setIsResearching(false);
-      setStatus('ready');
       setResearchProgress({});
+
+      // If we're following the job, the worker winds the run down and the stream sends
+      // "Research stopped" + partial-results options, then 'complete'.
+      if (!response.ok || (!abortControllerRef.current && !eventSourceRef.current)) {
+        abortControllerRef.current?.abort();
+        eventSourceRef.current?.close();
+        eventSourceRef.current = null;
+        setStatus('ready');
+      }
     } catch (err: any) {
       console.error('Error stopping research:', err);
     }
   };
 
+  // Approval mode: send the (edited) plan the run is waiting on
+  const approvePlan = async (round: number, questions: PlanQuestion[]) => {
+    if (!sessionId) return;
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/plan`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ round, questions })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to approve plan');
+
+      setMessages(prev => prev.map(m => m.metadata?.type === 'plan_approval' && m.metadata.round === round
+        ? { ...m, metadata: { ...m.metadata, questions: data.questions, status: 'submitted' } }
+        : m));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  // Steer the running research - the run picks the note up within a few seconds
+  const steerResearch = async (note: string) => {
+    if (!sessionId || !note.trim()) return;
+
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/steer`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ note })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to send steering note');
+
+      setMessages(prev => prev.some(m => m.metadata?.noteId === data.note.id) ? prev : [...prev, {
+        role: 'user',
+        content: data.note.text,
+        timestamp: data.note.createdAt,
+        metadata: { type: 'steering_note', noteId: data.note.id, status: 'queued' }
+      }]);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  // Follow the research job while it runs. After a page reload this replays the run's stored
+  // events first; after a dropped connection EventSource resumes from Last-Event-ID by itself.
+  useEffect(() => {
+    if ((!isResearching && !following) || !sessionId || eventSourceRef.current) return;
+
+    const since = lastEventIdRef.current ? `?lastEventId=${lastEventIdRef.current}` : '';
+    const eventSource = new EventSource(`/api/sessions/${sessionId}/stream${since}`);
+    eventSourceRef.current = eventSource;
+
+    const close = () => {
+      eventSource.close();
+      if (eventSourceRef.current === eventSource) eventSourceRef.current = null;
+      setFollowing(false);
+    };
+
+    eventSource.onmessage = (event) => {
+      try {
+        const update: ProgressUpdate = JSON.parse(event.data);
+        processUpdate(update);
+        if (update.type === 'complete' || update.type === 'error') close();
+      } catch (err) {
+        console.error('Failed to parse SSE message:', err);
+      }
+    };
+
+    eventSource.onerror = () => {
+      // EventSource reconnects on its own; give up only once the server has closed for good
+      if (eventSource.readyState === EventSource.CLOSED) close();
+    };
+  }, [isResearching, following, sessionId, processUpdate]);
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -764,7 +1086,10 @@ export function useSession(options: UseSessionOptions = {}) {
     eventLog,
     intakeSearch,
     sendMessage,
+    confirmResearch,
     stopResearch,
+    steerResearch,
+    approvePlan,
     initializeSession: initializeNewSession
   };
 }
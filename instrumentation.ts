@@ -0,0 +1,10 @@
+/**
+ * Next.js boot hook - pick up research jobs that were queued (or orphaned by a crash)
+ * while no worker was running
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const { startInProcessWorker } = await import('@/lib/jobs/worker');
+  startInProcessWorker();
+}
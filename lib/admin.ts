@@ -0,0 +1,51 @@
+/**
+ * Admin access - Observatory API routes and page
+ *
+ * Admins are users with users.role = 'admin' (set it in the database; there is no UI for it).
+ * Signed-in non-admins get 403, not 404: the routes aren't secret, only their data is.
+ */
+
+import { auth } from '@clerk/nextjs/server';
+import { db } from './db';
+import { users, type User } from './db/schema';
+import { eq } from 'drizzle-orm';
+
+export type AdminAccess =
+  | { ok: true; user: User }
+  | { ok: false; response: Response };
+
+/**
+ * The signed-in user if they are an admin, else null
+ */
+export async function getAdminUser(): Promise<User | null> {
+  const { userId: clerkUserId } = await auth();
+  if (!clerkUserId) return null;
+
+  const [user] = await db
+    .select()
+    .from(users)
+    .where(eq(users.clerkId, clerkUserId))
+    .limit(1);
+
+  return user?.role === 'admin' ? user : null;
+}
+
+/**
+ * Usage in a route:
+ *   const access = await requireAdmin();
+ *   if (!access.ok) return access.response;
+ */
+export async function requireAdmin(): Promise<AdminAccess> {
+  const { userId: clerkUserId } = await auth();
+  if (!clerkUserId) {
+    return { ok: false, response: Response.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const user = await getAdminUser();
+  if (!user) {
+    console.warn(`[Admin] Denied admin access to ${clerkUserId}`);
+    return { ok: false, response: Response.json({ error: 'Forbidden' }, { status: 403 }) };
+  }
+
+  return { ok: true, user };
+}
@@ -4,10 +4,15 @@ import { z } from 'zod';
 import { searchWeb } from '../research/search';
 import { intakePrompt } from '@/lib/prompts/research';
 import { trackLlmCall } from '@/lib/eval';
+import type { ResearchBudget, CallOptions, SearchProviderName } from '../research/types';
+import { toCallUsage } from '../research/budget';
 
 export interface ResearchBrief {
   objective: string;
   successCriteria: string[];
+  budget?: ResearchBudget; // per-run limits; unset fields use DEFAULT_BUDGET (lib/research/budget.ts)
+  searchProvider?: SearchProviderName; // per-run search backend; unset = SEARCH_PROVIDER env
+  approvePlan?: boolean; // pause after each planning round until the user approves its questions
 }
 
 export interface OrchestratorDecision {
@@ -71,7 +76,8 @@ export async function analyzeUserMessage(
   userMessage: string,
   conversationHistory: any[],
   brain: string,
-  onProgress?: (update: { type: string; query?: string; answer?: string }) => void
+  onProgress?: (update: { type: string; query?: string; answer?: string }) => void,
+  options: CallOptions = {}
 ): Promise<OrchestratorDecision> {
 
   // Build messages
@@ -120,6 +126,7 @@ export async function analyzeUserMessage(
     tools: { quick_web_search, textInput, multiChoiceSelect, startResearch },
     toolChoice: 'required'
   });
+  options.onUsage?.(toCallUsage('llm', 'claude-sonnet-4', result1.usage));
 
   const toolCall = result1.toolCalls?.[0];
   console.log('[Intake] Tool called:', toolCall?.toolName);
@@ -148,7 +155,7 @@ export async function analyzeUserMessage(
 
   onProgress?.({ type: 'intake_searching', query });
 
-  const searchResult = await searchWeb(query);
+  const searchResult = await searchWeb(query, options);
   const answer = searchResult.answer || 'No results found';
 
   console.log('[Intake] Search complete, answer length:', answer.length);
@@ -180,6 +187,7 @@ export async function analyzeUserMessage(
     tools: { textInput, multiChoiceSelect, startResearch }, // No search this time
     toolChoice: 'required'
   });
+  options.onUsage?.(toCallUsage('llm', 'claude-sonnet-4', result2.usage));
 
   const finalToolCall = result2.toolCalls?.[0];
   console.log('[Intake] Final tool called:', finalToolCall?.toolName);
@@ -1,6 +1,7 @@
 import { db } from './db';
-import { users } from './db/schema';
-import { eq } from 'drizzle-orm';
+import { users, creditTransactions, type CreditTransaction } from './db/schema';
+import { isUniqueViolation } from './db/errors';
+import { eq, desc, sql } from 'drizzle-orm';
 
 /**
  * Check if user has enough credits
@@ -15,48 +16,122 @@ export async function hasEnoughCredits(userId: string, amount: number): Promise<
   return user.credits >= amount;
 }
 
+// ============================================================
+// Ledger - every balance change is one statement: update users + append credit_transactions
+// ============================================================
+
+export type CreditTransactionType = 'grant' | 'purchase' | 'research_charge' | 'refund' | 'admin_adjustment';
+
+export interface CreditRefs {
+  chatSessionId?: string | null;
+  researchSessionId?: string | null;
+  researchJobId?: string | null;
+  externalId?: string | null; // e.g. Stripe checkout session id
+  description?: string | null;
+}
+
+export const SIGNUP_GRANT_CREDITS = 5000; // free credits for new users (POC)
+
 /**
- * Deduct credits from user account
+ * Apply a signed credit change and record it in the ledger
+ * @throws Error if insufficient credits (balance would go negative) or user not found
+ */
+async function applyCreditChange(
+  userId: string,
+  type: CreditTransactionType,
+  amount: number,
+  refs: CreditRefs = {}
+): Promise<{ id: string; balanceAfter: number }> {
+  // Charges count towards lifetime usage, refunds give it back
+  const usedDelta = type === 'research_charge' || type === 'refund' ? -amount : 0;
+
+  // Data-modifying CTE: the balance check, update and ledger insert succeed or fail together
+  const result = await db.execute<{ id: string; balance_after: number }>(sql`
+    with updated as (
+      update users
+      set credits = credits + ${amount}::integer,
+          lifetime_credits_used = greatest(0, lifetime_credits_used + ${usedDelta}::integer),
+          updated_at = now()
+      where id = ${userId}::uuid and credits + ${amount}::integer >= 0
+      returning id, credits
+    )
+    insert into credit_transactions
+      (user_id, type, amount, balance_after, chat_session_id, research_session_id, research_job_id, external_id, description)
+    select id, ${type}::text, ${amount}::integer, credits,
+      ${refs.chatSessionId ?? null}::uuid, ${refs.researchSessionId ?? null}::uuid, ${refs.researchJobId ?? null}::uuid,
+      ${refs.externalId ?? null}::text, ${refs.description ?? null}::text
+    from updated
+    returning id, balance_after
+  `);
+
+  const [row] = result.rows;
+  if (!row) {
+    const [user] = await db.select({ id: users.id }).from(users).where(eq(users.id, userId)).limit(1);
+    throw new Error(user ? 'Insufficient credits' : 'User not found');
+  }
+
+  return { id: row.id, balanceAfter: Number(row.balance_after) };
+}
+
+/**
+ * Deduct credits from user account (research/intake usage)
  * @throws Error if insufficient credits
  */
-export async function deductCredits(userId: string, amount: number): Promise<void> {
-  const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+export async function deductCredits(userId: string, amount: number, refs: CreditRefs = {}): Promise<void> {
+  await applyCreditChange(userId, 'research_charge', -amount, refs);
+}
 
-  if (!user) {
-    throw new Error('User not found');
+/**
+ * Add credits to user account (after purchase)
+ * Idempotent per refs.externalId: returns false if that payment was already credited
+ */
+export async function addCredits(userId: string, amount: number, refs: CreditRefs = {}): Promise<boolean> {
+  try {
+    await applyCreditChange(userId, 'purchase', amount, refs);
+    return true;
+  } catch (error: unknown) {
+    // credit_transactions.external_id is unique - the whole statement (balance included) was rolled back
+    if (refs.externalId && isUniqueViolation(error)) return false;
+    throw error;
   }
+}
 
-  if (user.credits < amount) {
-    throw new Error('Insufficient credits');
-  }
+/**
+ * Give back credits for work that failed or was charged by mistake
+ */
+export async function refundCredits(userId: string, amount: number, refs: CreditRefs = {}): Promise<void> {
+  await applyCreditChange(userId, 'refund', amount, refs);
+}
 
-  await db
-    .update(users)
-    .set({
-      credits: user.credits - amount,
-      lifetimeCreditsUsed: user.lifetimeCreditsUsed + amount,
-      updatedAt: new Date(),
-    })
-    .where(eq(users.id, userId));
+/**
+ * Manual correction by an admin (signed; description should say why)
+ * @throws Error if the balance would go negative
+ */
+export async function adjustCredits(userId: string, amount: number, refs: CreditRefs = {}): Promise<void> {
+  await applyCreditChange(userId, 'admin_adjustment', amount, refs);
 }
 
 /**
- * Add credits to user account (after purchase)
+ * Most recent ledger entries for a user
  */
-export async function addCredits(userId: string, amount: number): Promise<void> {
-  const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+export async function getCreditTransactions(userId: string, limit = 50): Promise<CreditTransaction[]> {
+  return db
+    .select()
+    .from(creditTransactions)
+    .where(eq(creditTransactions.userId, userId))
+    .orderBy(desc(creditTransactions.createdAt))
+    .limit(limit);
+}
 
-  if (!user) {
-    throw new Error('User not found');
-  }
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
-  await db
-    .update(users)
-    .set({
-      credits: user.credits + amount,
-      updatedAt: new Date(),
-    })
-    .where(eq(users.id, userId));
+/**
+ * Whether a users row has this id (false for ids that aren't uuids, instead of a Postgres error)
+ */
+export async function userExists(userId: string): Promise<boolean> {
+  if (!UUID_PATTERN.test(userId)) return false;
+  const [user] = await db.select({ id: users.id }).from(users).where(eq(users.id, userId)).limit(1);
+  return Boolean(user);
 }
 
 /**
@@ -88,16 +163,20 @@ export async function getOrCreateUser(clerkId: string, email: string | null) {
     return existingUser;
   }
 
-  // Create new user with 5000 free credits
+  // Create new user, then grant the free credits through the ledger
   const [newUser] = await db
     .insert(users)
     .values({
       clerkId,
       email: email || `${clerkId}@placeholder.com`,
-      credits: 5000, // 5000 free credits to start (for POC)
+      credits: 0,
       lifetimeCreditsUsed: 0,
     })
     .returning();
 
-  return newUser;
+  const { balanceAfter } = await applyCreditChange(newUser.id, 'grant', SIGNUP_GRANT_CREDITS, {
+    description: 'Free credits on sign-up',
+  });
+
+  return { ...newUser, credits: balanceAfter };
 }
@@ -0,0 +1,14 @@
+/**
+ * Postgres error helpers - drizzle wraps driver errors, so the code may sit on error.cause
+ */
+
+function pgErrorCode(error: unknown): string | undefined {
+  const err = error as { code?: unknown; cause?: { code?: unknown } } | null | undefined;
+  const code = err?.code ?? err?.cause?.code;
+  return typeof code === 'string' ? code : undefined;
+}
+
+/** A unique index rejected the write (23505) */
+export function isUniqueViolation(error: unknown): boolean {
+  return pgErrorCode(error) === '23505';
+}
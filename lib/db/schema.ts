@@ -1,4 +1,4 @@
-import { pgTable, text, integer, timestamp, uuid, real, jsonb, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, integer, timestamp, uuid, real, jsonb, boolean, uniqueIndex, index } from "drizzle-orm/pg-core";
 
 // Users table - tracks credits and user info
 export const users = pgTable("users", {
@@ -7,6 +7,8 @@ export const users = pgTable("users", {
   email: text("email").notNull(),
   credits: integer("credits").notNull().default(5000), // Start with 5000 free credits for POC
   lifetimeCreditsUsed: integer("lifetime_credits_used").notNull().default(0),
+  role: text("role").notNull().default("user"),
+  // Values: 'user' | 'admin' (admin = Observatory access)
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -35,7 +37,13 @@ export const chatSessions = pgTable("chat_sessions", {
 
   // Research state (when research agent is running)
   currentResearch: jsonb("current_research"),
-  // { objective: string, questionsPlanned: string[], progress: number }
+  // ResearchCheckpoint: full ResearchState (incl. question history) + round, written after every step
+
+  // Steering notes the user sent during the current run (SteeringNote[], reset when a run starts)
+  steeringNotes: jsonb("steering_notes").default([]).notNull(),
+
+  // Approval mode: the round waiting for the user's plan, then the plan they approved (PlanApproval, null otherwise)
+  planApproval: jsonb("plan_approval"),
 
   // Timestamps
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -88,10 +96,13 @@ export type NewResearchSession = typeof researchSessions.$inferInsert;
 export const searchQueries = pgTable("search_queries", {
   id: uuid("id").defaultRandom().primaryKey(),
   researchSessionId: uuid("research_session_id").notNull().references(() => researchSessions.id, { onDelete: 'cascade' }),
+  questionId: text("question_id"), // ResearchQuestionMemory.id that ran the search
 
   // Query details
   query: text("query").notNull(),
   queryNormalized: text("query_normalized").notNull(), // lowercase, trimmed for dedup
+  provider: text("provider"), // SearchProviderName that produced the answer
+  cacheHit: boolean("cache_hit").notNull().default(false), // answered from an earlier row, not the provider
   purpose: text("purpose"),
 
   // Results
@@ -107,7 +118,9 @@ export const searchQueries = pgTable("search_queries", {
 
   // Timestamps
   createdAt: timestamp("created_at").defaultNow().notNull()
-});
+}, (table) => [
+  index("search_queries_cache_idx").on(table.queryNormalized, table.provider, table.createdAt)
+]);
 
 export type SearchQuery = typeof searchQueries.$inferSelect;
 export type NewSearchQuery = typeof searchQueries.$inferInsert;
@@ -178,3 +191,76 @@ export const agents = pgTable("agents", {
 
 export type Agent = typeof agents.$inferSelect;
 export type NewAgent = typeof agents.$inferInsert;
+
+// Research jobs - queue of research runs, executed by a worker (in-process or separate Node process)
+export const researchJobs = pgTable("research_jobs", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  chatSessionId: uuid("chat_session_id").notNull().references(() => chatSessions.id, { onDelete: 'cascade' }),
+  researchSessionId: uuid("research_session_id").references(() => researchSessions.id, { onDelete: 'cascade' }),
+  userId: uuid("user_id").notNull().references(() => users.id),
+
+  // Input
+  brief: jsonb("brief").notNull(),
+  // ResearchBrief { objective, successCriteria[] }
+
+  // Execution
+  status: text("status").notNull().default("queued"),
+  // Values: 'queued' | 'running' | 'awaiting_approval' | 'completed' | 'stopped' | 'failed'
+  workerId: text("worker_id"),
+  attempts: integer("attempts").notNull().default(0),
+  heartbeatAt: timestamp("heartbeat_at"),
+  error: text("error"),
+
+  // Timestamps
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at")
+});
+
+export type ResearchJob = typeof researchJobs.$inferSelect;
+export type NewResearchJob = typeof researchJobs.$inferInsert;
+
+// Session events - progress events streamed to the client, replayable after a reconnect
+export const sessionEvents = pgTable("session_events", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  chatSessionId: uuid("chat_session_id").notNull().references(() => chatSessions.id, { onDelete: 'cascade' }),
+
+  // Per-session, monotonically increasing - this is the SSE event id
+  seq: integer("seq").notNull(),
+
+  type: text("type").notNull(),
+  data: jsonb("data").notNull(),
+
+  createdAt: timestamp("created_at").defaultNow().notNull()
+}, (table) => [
+  uniqueIndex("session_events_session_seq_idx").on(table.chatSessionId, table.seq)
+]);
+
+export type SessionEvent = typeof sessionEvents.$inferSelect;
+export type NewSessionEvent = typeof sessionEvents.$inferInsert;
+
+// Credit transactions - append-only ledger; every change to users.credits writes one row in the same statement
+export const creditTransactions = pgTable("credit_transactions", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: uuid("user_id").notNull().references(() => users.id),
+
+  type: text("type").notNull(),
+  // Values: 'grant' | 'purchase' | 'research_charge' | 'refund' | 'admin_adjustment'
+  amount: integer("amount").notNull(), // signed: negative for charges
+  balanceAfter: integer("balance_after").notNull(),
+
+  // What the change was for (kept when the session/job is deleted)
+  chatSessionId: uuid("chat_session_id").references(() => chatSessions.id, { onDelete: 'set null' }),
+  researchSessionId: uuid("research_session_id").references(() => researchSessions.id, { onDelete: 'set null' }),
+  researchJobId: uuid("research_job_id").references(() => researchJobs.id, { onDelete: 'set null' }),
+  externalId: text("external_id").unique(), // e.g. Stripe checkout session id
+  description: text("description"),
+
+  createdAt: timestamp("created_at").defaultNow().notNull()
+}, (table) => [
+  index("credit_transactions_user_created_idx").on(table.userId, table.createdAt)
+]);
+
+export type CreditTransaction = typeof creditTransactions.$inferSelect;
+export type NewCreditTransaction = typeof creditTransactions.$inferInsert;
@@ -0,0 +1,196 @@
+/**
+ * Research Jobs - Queue operations on the research_jobs table
+ *
+ * The message route enqueues, a worker (lib/jobs/worker.ts) claims and runs.
+ * Claiming is a single UPDATE ... FOR UPDATE SKIP LOCKED, so several workers
+ * (in-process and/or separate processes) can poll the same table safely.
+ * A running job whose heartbeat goes stale is requeued and resumed from its checkpoint.
+ * Heartbeats and finishing are fenced on worker_id, so a worker that lost its job to a
+ * requeue can't touch it anymore - it finds out from the 0-row update and stops.
+ * A run that waited too long for plan approval is parked ('awaiting_approval', no worker) and
+ * requeued when the plan is approved; it then resumes from its checkpoint.
+ */
+
+import { db } from '@/lib/db';
+import { researchJobs } from '@/lib/db/schema';
+import type { ResearchJob } from '@/lib/db/schema';
+import { and, desc, eq, gte, inArray, lt, sql } from 'drizzle-orm';
+import type { ResearchBrief } from '@/lib/agents/intake-agent';
+
+export type ResearchJobStatus = 'queued' | 'running' | 'awaiting_approval' | 'completed' | 'stopped' | 'failed';
+
+export const ACTIVE_JOB_STATUSES: ResearchJobStatus[] = ['queued', 'running'];
+
+export async function enqueueResearchJob(params: {
+  chatSessionId: string;
+  researchSessionId: string;
+  userId: string;
+  brief: ResearchBrief;
+}): Promise<ResearchJob> {
+  const [job] = await db
+    .insert(researchJobs)
+    .values({
+      chatSessionId: params.chatSessionId,
+      researchSessionId: params.researchSessionId,
+      userId: params.userId,
+      brief: params.brief,
+      status: 'queued',
+    })
+    .returning();
+
+  return job;
+}
+
+/**
+ * Atomically claim the oldest queued job for this worker (null if the queue is empty)
+ */
+export async function claimNextJob(workerId: string): Promise<ResearchJob | null> {
+  const [job] = await db
+    .update(researchJobs)
+    .set({
+      status: 'running',
+      workerId,
+      attempts: sql`${researchJobs.attempts} + 1`,
+      heartbeatAt: new Date(),
+      startedAt: sql`coalesce(${researchJobs.startedAt}, now())`,
+      updatedAt: new Date(),
+    })
+    .where(eq(
+      researchJobs.id,
+      sql`(select id from research_jobs where status = 'queued' order by created_at limit 1 for update skip locked)`
+    ))
+    .returning();
+
+  return job ?? null;
+}
+
+// The job is still running under this worker (not requeued and claimed by another)
+function ownedBy(jobId: string, workerId: string) {
+  return and(eq(researchJobs.id, jobId), eq(researchJobs.workerId, workerId), eq(researchJobs.status, 'running'));
+}
+
+/**
+ * Touch the job's heartbeat - false if this worker no longer owns it
+ */
+export async function heartbeatJob(jobId: string, workerId: string): Promise<boolean> {
+  const rows = await db
+    .update(researchJobs)
+    .set({ heartbeatAt: new Date() })
+    .where(ownedBy(jobId, workerId))
+    .returning({ id: researchJobs.id });
+  return rows.length > 0;
+}
+
+/**
+ * Requeue running jobs whose worker stopped heartbeating (crash, redeploy).
+ * Jobs that already used maxAttempts are failed instead and returned, so the caller can tell the user.
+ */
+export async function recoverStaleJobs(staleAfterMs: number, maxAttempts: number): Promise<ResearchJob[]> {
+  const staleBefore = new Date(Date.now() - staleAfterMs);
+  const isStale = and(eq(researchJobs.status, 'running'), lt(researchJobs.heartbeatAt, staleBefore));
+
+  const abandoned = await db
+    .update(researchJobs)
+    .set({
+      status: 'failed',
+      error: 'Worker stopped responding too many times',
+      completedAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(and(isStale, gte(researchJobs.attempts, maxAttempts)))
+    .returning();
+
+  await db
+    .update(researchJobs)
+    .set({ status: 'queued', workerId: null, updatedAt: new Date() })
+    .where(isStale);
+
+  return abandoned;
+}
+
+/**
+ * Close out the job - false if this worker no longer owns it (left to its new worker)
+ */
+export async function finishJob(
+  jobId: string,
+  workerId: string,
+  status: Extract<ResearchJobStatus, 'completed' | 'stopped' | 'failed'>,
+  error?: string
+): Promise<boolean> {
+  const rows = await db
+    .update(researchJobs)
+    .set({ status, error: error ?? null, completedAt: new Date(), updatedAt: new Date() })
+    .where(ownedBy(jobId, workerId))
+    .returning({ id: researchJobs.id });
+  return rows.length > 0;
+}
+
+/**
+ * Give up this worker's slot while the user hasn't approved the plan - false if it no longer owns the job.
+ * The claim doesn't count as an attempt: those are for workers that died.
+ */
+export async function parkJob(jobId: string, workerId: string): Promise<boolean> {
+  const rows = await db
+    .update(researchJobs)
+    .set({
+      status: 'awaiting_approval',
+      workerId: null,
+      heartbeatAt: null,
+      attempts: sql`greatest(0, ${researchJobs.attempts} - 1)`,
+      updatedAt: new Date(),
+    })
+    .where(ownedBy(jobId, workerId))
+    .returning({ id: researchJobs.id });
+  return rows.length > 0;
+}
+
+/**
+ * Queue the session's parked job again (its plan was approved) - false if none is parked
+ */
+export async function requeueParkedJob(chatSessionId: string): Promise<boolean> {
+  const rows = await db
+    .update(researchJobs)
+    .set({ status: 'queued', updatedAt: new Date() })
+    .where(and(eq(researchJobs.chatSessionId, chatSessionId), eq(researchJobs.status, 'awaiting_approval')))
+    .returning({ id: researchJobs.id });
+  return rows.length > 0;
+}
+
+/**
+ * Close the session's parked job (the user stopped the run) - returns it, or null if none is parked
+ */
+export async function stopParkedJob(chatSessionId: string): Promise<ResearchJob | null> {
+  const [job] = await db
+    .update(researchJobs)
+    .set({ status: 'stopped', completedAt: new Date(), updatedAt: new Date() })
+    .where(and(eq(researchJobs.chatSessionId, chatSessionId), eq(researchJobs.status, 'awaiting_approval')))
+    .returning();
+  return job ?? null;
+}
+
+/**
+ * Most recent job for a chat session (what the progress stream follows)
+ */
+export async function getLatestJob(chatSessionId: string): Promise<ResearchJob | null> {
+  const [job] = await db
+    .select()
+    .from(researchJobs)
+    .where(eq(researchJobs.chatSessionId, chatSessionId))
+    .orderBy(desc(researchJobs.createdAt))
+    .limit(1);
+
+  return job ?? null;
+}
+
+export async function hasActiveJob(chatSessionId: string): Promise<boolean> {
+  const [job] = await db
+    .select({ id: researchJobs.id })
+    .from(researchJobs)
+    .where(and(
+      eq(researchJobs.chatSessionId, chatSessionId),
+      inArray(researchJobs.status, ACTIVE_JOB_STATUSES)
+    ))
+    .limit(1);
+
+  return Boolean(job);
+}
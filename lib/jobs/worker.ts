@@ -0,0 +1,309 @@
+/**
+ * Research Worker - Claims research jobs and runs them to completion
+ *
+ * Two ways to run it:
+ * - In-process (default): kickWorker() drains the queue inside the Next.js server.
+ *   The message route kicks it after enqueueing; instrumentation.ts starts a periodic sweep on boot.
+ * - Separate process: `npm run worker` (scripts/research-worker.ts) polls forever.
+ *   Set RESEARCH_WORKER_MODE=external so the web server never runs jobs itself
+ *   (use this on serverless hosts, where a request can't outlive its timeout).
+ */
+
+import os from 'os';
+import { db } from '@/lib/db';
+import { researchSessions } from '@/lib/db/schema';
+import type { ResearchJob } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import type { ResearchBrief } from '@/lib/agents/intake-agent';
+import { runResearch } from '@/lib/research/run';
+import { registerRun, unregisterRun, isStopError, ResearchStoppedError } from '@/lib/research/cancel';
+import type { RunMetrics } from '@/lib/research/types';
+import { appendMessages, appendResearchResult, appendStoppedMessage, appendOutOfCreditsMessage } from '@/lib/sessions/conversation';
+import { createMeter, usdForCredits } from '@/lib/metering';
+import { openEventLog } from '@/lib/sessions/events';
+import { PlanApprovalTimeoutError, getApprovedPlan } from '@/lib/sessions/plan-approval';
+import { claimNextJob, heartbeatJob, finishJob, parkJob, requeueParkedJob, recoverStaleJobs } from './research-jobs';
+
+// ============================================================
+// Config
+// ============================================================
+
+const CONFIG = {
+  pollMs: 2000, // separate-process worker: how often to check for queued jobs
+  heartbeatMs: 15 * 1000, // running jobs touch heartbeat_at this often
+  staleAfterMs: 2 * 60 * 1000, // no heartbeat for this long = worker died, requeue the job
+  maxAttempts: 3, // give up on a job after its worker died this many times
+  sweepMs: 60 * 1000, // in-process worker: how often to look for stale/queued jobs without a kick
+  maxConcurrentJobs: Number(process.env.RESEARCH_WORKER_CONCURRENCY) || 4,
+};
+
+export const WORKER_ID = `${os.hostname()}-${process.pid}-${Math.random().toString(36).substring(2, 8)}`;
+
+const log = (msg: string, data?: unknown) => {
+  console.log(`[Worker ${WORKER_ID}] ${msg}`, data ? JSON.stringify(data).substring(0, 200) : '');
+};
+
+export function isExternalWorkerMode(): boolean {
+  return process.env.RESEARCH_WORKER_MODE === 'external';
+}
+
+// research_sessions columns for a finished/stopped run (cost = provider spend, not credits charged)
+function metricsColumns(metrics?: RunMetrics) {
+  if (!metrics) return {};
+  return {
+    totalSteps: metrics.totalSteps,
+    confidenceLevel: metrics.confidence,
+    totalCost: usdForCredits(metrics.spent.credits),
+  };
+}
+
+// ============================================================
+// Run one job
+// ============================================================
+
+export async function runJob(job: ResearchJob): Promise<void> {
+  const brief = job.brief as ResearchBrief;
+  const chatSessionId = job.chatSessionId;
+  // The run continues from this job's checkpoint if it has one: an earlier worker died
+  // mid-run (attempts > 1), or the job was parked waiting for plan approval
+  log(job.attempts > 1 ? 'Resuming job' : 'Running job', { jobId: job.id, attempt: job.attempts, objective: brief.objective });
+
+  const events = await openEventLog(chatSessionId);
+
+  const runController = registerRun(chatSessionId);
+
+  // Requeued as stale and maybe claimed elsewhere - stop without writing anything more
+  let lost = false;
+  const loseJob = () => {
+    if (lost) return;
+    lost = true;
+    log('Lost job to another worker, stopping', { jobId: job.id });
+    runController.abort();
+  };
+
+  const heartbeat = setInterval(() => {
+    heartbeatJob(job.id, WORKER_ID)
+      .then(owned => { if (!owned) loseJob(); })
+      .catch(() => {});
+  }, CONFIG.heartbeatMs);
+
+  // Charge as the run goes; an empty balance stops it like the stop button does
+  const meter = createMeter({
+    userId: job.userId,
+    chatSessionId,
+    researchSessionId: job.researchSessionId,
+    researchJobId: job.id,
+    onOutOfCredits: () => runController.abort(),
+  });
+
+  try {
+    const researchResult = await runResearch({
+      chatSessionId,
+      researchBrief: brief,
+      onProgress: (update) => events.record(update),
+      onUsage: meter.record,
+      signal: runController.signal,
+      runId: job.id,
+      researchSessionId: job.researchSessionId ?? undefined,
+      resume: true,
+    });
+    // Events must be stored before the job finishes - the stream drains them once it sees that
+    await events.flush();
+    await meter.flush();
+    if (lost) return;
+
+    const finalAnswer = researchResult.output.finalAnswer;
+
+    if (job.researchSessionId) {
+      await db
+        .update(researchSessions)
+        .set({
+          status: 'completed',
+          finalAnswer,
+          ...metricsColumns(researchResult.metrics),
+          completedAt: new Date()
+        })
+        .where(eq(researchSessions.id, job.researchSessionId));
+    }
+
+    const finalMessage = finalAnswer?.trim() ||
+      '**Research Complete**\n\nI\'ve finished researching this topic.';
+    await appendResearchResult(chatSessionId, brief.objective, finalMessage, researchResult.output.sources);
+
+    if (!(await finishJob(job.id, WORKER_ID, 'completed'))) return loseJob();
+    log('Job completed', { jobId: job.id });
+
+  } catch (error: unknown) {
+    await events.flush();
+    await meter.flush();
+    if (lost) return;
+
+    if (error instanceof PlanApprovalTimeoutError) {
+      if (!(await parkJob(job.id, WORKER_ID))) return loseJob();
+      log('Job parked until the plan is approved', { jobId: job.id, round: error.round });
+      // Approved while we were parking - nobody else will requeue it
+      if ((await getApprovedPlan(chatSessionId, error.round)) && (await requeueParkedJob(chatSessionId))) {
+        kickWorker();
+      }
+      return;
+    }
+
+    if (isStopError(error)) {
+      if (job.researchSessionId) {
+        await db
+          .update(researchSessions)
+          .set({
+            status: 'stopped',
+            ...metricsColumns(error instanceof ResearchStoppedError ? error.metrics : undefined),
+            completedAt: new Date()
+          })
+          .where(eq(researchSessions.id, job.researchSessionId));
+      }
+      if (meter.outOfCredits()) {
+        await appendOutOfCreditsMessage(chatSessionId);
+      } else {
+        await appendStoppedMessage(chatSessionId, brief.objective);
+      }
+      if (!(await finishJob(job.id, WORKER_ID, 'stopped'))) return loseJob();
+      log('Job stopped', { jobId: job.id, outOfCredits: meter.outOfCredits() });
+      return;
+    }
+
+    console.error(`[Worker ${WORKER_ID}] Job ${job.id} failed:`, error);
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (job.researchSessionId) {
+      await db
+        .update(researchSessions)
+        .set({ status: 'error', completedAt: new Date() })
+        .where(eq(researchSessions.id, job.researchSessionId));
+    }
+    await appendMessages(chatSessionId, [{
+      role: 'assistant',
+      content: `Research failed: ${message || 'unknown error'}`,
+      timestamp: new Date().toISOString()
+    }], { status: 'active' });
+    if (!(await finishJob(job.id, WORKER_ID, 'failed', message))) loseJob();
+
+  } finally {
+    clearInterval(heartbeat);
+    unregisterRun(chatSessionId, runController);
+  }
+}
+
+/**
+ * A job whose worker died too many times - close out the run so the session isn't stuck researching
+ */
+async function failAbandonedJob(job: ResearchJob): Promise<void> {
+  log('Job abandoned', { jobId: job.id, attempts: job.attempts });
+
+  if (job.researchSessionId) {
+    await db
+      .update(researchSessions)
+      .set({ status: 'error', completedAt: new Date() })
+      .where(eq(researchSessions.id, job.researchSessionId));
+  }
+  await appendMessages(job.chatSessionId, [{
+    role: 'assistant',
+    content: 'Research failed: the worker running it stopped responding.',
+    timestamp: new Date().toISOString()
+  }], { status: 'active' });
+}
+
+// ============================================================
+// Slots - each process runs up to maxConcurrentJobs at once
+// ============================================================
+
+let activeJobs = 0;
+const inFlight = new Set<Promise<void>>();
+let filling = false;
+let refillRequested = false; // a kick arrived while we were mid-fill - look again
+
+/**
+ * Claim queued jobs until this process is at capacity. Each job frees its slot when done
+ * and (in-process mode) immediately refills it, so the queue drains without polling.
+ */
+async function fillSlots(refillOnFinish: boolean): Promise<void> {
+  if (filling) {
+    refillRequested = true;
+    return;
+  }
+  filling = true;
+
+  try {
+    const abandoned = await recoverStaleJobs(CONFIG.staleAfterMs, CONFIG.maxAttempts);
+    for (const job of abandoned) {
+      await failAbandonedJob(job);
+    }
+
+    do {
+      refillRequested = false;
+      while (activeJobs < CONFIG.maxConcurrentJobs) {
+        const job = await claimNextJob(WORKER_ID);
+        if (!job) break;
+
+        activeJobs++;
+        const running: Promise<void> = runJob(job)
+          .catch(err => console.error(`[Worker ${WORKER_ID}] Job ${job.id} crashed:`, err))
+          .finally(() => {
+            activeJobs--;
+            inFlight.delete(running);
+            if (refillOnFinish) kickWorker();
+          });
+        inFlight.add(running);
+      }
+    } while (refillRequested && activeJobs < CONFIG.maxConcurrentJobs);
+  } finally {
+    filling = false;
+  }
+}
+
+// ============================================================
+// In-process worker - drain the queue, then go idle
+// ============================================================
+
+/**
+ * Start running queued jobs in this process (no-op in external mode).
+ * Safe to call often: the message route calls it after every enqueue.
+ */
+export function kickWorker(): void {
+  if (isExternalWorkerMode()) return;
+
+  fillSlots(true).catch(err => console.error(`[Worker ${WORKER_ID}] Claim failed:`, err));
+}
+
+let sweep: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Boot the in-process worker: kick now, then sweep periodically so jobs whose
+ * worker died (stale heartbeat) get resumed even when nobody enqueues anything.
+ */
+export function startInProcessWorker(): void {
+  if (isExternalWorkerMode() || sweep) return;
+
+  kickWorker();
+  sweep = setInterval(kickWorker, CONFIG.sweepMs);
+  sweep.unref?.();
+}
+
+// ============================================================
+// Separate-process worker - poll forever
+// ============================================================
+
+export async function startWorker(options: { signal?: AbortSignal } = {}): Promise<void> {
+  log('Worker started', { maxConcurrentJobs: CONFIG.maxConcurrentJobs });
+
+  while (!options.signal?.aborted) {
+    try {
+      await fillSlots(false);
+    } catch (err) {
+      console.error(`[Worker ${WORKER_ID}] Poll failed:`, err);
+    }
+    await new Promise(resolve => setTimeout(resolve, CONFIG.pollMs));
+  }
+
+  // Let in-flight jobs finish before the process exits
+  log('Worker stopping', { inFlight: inFlight.size });
+  await Promise.allSettled(inFlight);
+  log('Worker stopped');
+}
@@ -0,0 +1,136 @@
+/**
+ * Metering - Turns model usage into credits and charges the user as work happens
+ *
+ * 1 credit = $0.01. LLM calls are priced per token (result.usage); searches per request
+ * (plus tokens for Perplexity). Charges are batched (CHARGE_EVERY_CREDITS), written to the
+ * credit ledger as research_charge entries and rolled into chat_sessions.credits_used
+ * (and research_sessions.credits_used for research runs).
+ */
+
+import { db } from './db';
+import { chatSessions, researchSessions } from './db/schema';
+import { eq, sql } from 'drizzle-orm';
+import { deductCredits } from './credits';
+import type { CallUsage } from './research/types';
+
+// ============================================================
+// Pricing
+// ============================================================
+
+// USD per 1M tokens
+const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  'gpt-5.2': { input: 1.75, output: 14 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'perplexity-sonar': { input: 1, output: 1 },
+  'perplexity-sonar-pro': { input: 3, output: 15 },
+  'tavily-basic': { input: 0, output: 0 },
+  'tavily-advanced': { input: 0, output: 0 },
+  'fixture': { input: 0, output: 0 },
+};
+const FALLBACK_PRICE = { input: 3, output: 15 }; // unknown model: assume a frontier-model price
+
+// Per-request search fees (USD)
+const SEARCH_REQUEST_PRICES: Record<string, number> = {
+  'perplexity-sonar': 0.005,
+  'perplexity-sonar-pro': 0.005,
+  'tavily-basic': 0.008, // 1 Tavily credit
+  'tavily-advanced': 0.016, // 2 Tavily credits
+  'fixture': 0, // recorded results - still counts as a search for the budget
+};
+const FALLBACK_SEARCH_REQUEST_USD = 0.005;
+const CREDITS_PER_USD = 100;
+const CHARGE_EVERY_CREDITS = 10; // one ledger entry per ~10 credits, not per call
+
+// Below these balances we don't start new work
+export const MIN_CREDITS_FOR_MESSAGE = 1;
+export const MIN_CREDITS_TO_START_RESEARCH = 50;
+
+export function usdForCredits(credits: number): number {
+  return credits / CREDITS_PER_USD;
+}
+
+export function creditsForUsage(usage: CallUsage): number {
+  const price = MODEL_PRICES[usage.model] || FALLBACK_PRICE;
+  const tokensUsd = (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+  const requestUsd = usage.kind === 'search' ? SEARCH_REQUEST_PRICES[usage.model] ?? FALLBACK_SEARCH_REQUEST_USD : 0;
+  return (tokensUsd + requestUsd) * CREDITS_PER_USD;
+}
+
+// ============================================================
+// Meter - one per request / research run
+// ============================================================
+
+export interface Meter {
+  /** Accrue a call's cost; whole credits are charged in the background once enough add up */
+  record(usage: CallUsage): void;
+  /** Charge what's left (rounded up) and wait for every charge to land */
+  flush(): Promise<void>;
+  charged(): number;
+  outOfCredits(): boolean;
+}
+
+export function createMeter(params: {
+  userId: string;
+  chatSessionId: string;
+  researchSessionId?: string | null;
+  researchJobId?: string | null;
+  onOutOfCredits?: () => void; // e.g. abort the run
+}): Meter {
+  let pending = 0; // fractional credits not charged yet
+  let charged = 0;
+  let outOfCredits = false;
+  let chargeQueue: Promise<void> = Promise.resolve();
+
+  const charge = (amount: number) => {
+    chargeQueue = chargeQueue.then(async () => {
+      if (outOfCredits) return;
+      try {
+        await deductCredits(params.userId, amount, {
+          chatSessionId: params.chatSessionId,
+          researchSessionId: params.researchSessionId,
+          researchJobId: params.researchJobId,
+        });
+        charged += amount;
+
+        await db
+          .update(chatSessions)
+          .set({ creditsUsed: sql`${chatSessions.creditsUsed} + ${amount}` })
+          .where(eq(chatSessions.id, params.chatSessionId));
+        if (params.researchSessionId) {
+          await db
+            .update(researchSessions)
+            .set({ creditsUsed: sql`${researchSessions.creditsUsed} + ${amount}` })
+            .where(eq(researchSessions.id, params.researchSessionId));
+        }
+      } catch (error: unknown) {
+        if (error instanceof Error && error.message === 'Insufficient credits') {
+          console.log(`[Metering] User ${params.userId} is out of credits`);
+          outOfCredits = true;
+          params.onOutOfCredits?.();
+          return;
+        }
+        console.error('[Metering] Failed to charge credits:', error);
+      }
+    });
+  };
+
+  return {
+    record(usage) {
+      pending += creditsForUsage(usage);
+      if (pending >= CHARGE_EVERY_CREDITS) {
+        const amount = Math.floor(pending);
+        pending -= amount;
+        charge(amount);
+      }
+    },
+    async flush() {
+      if (pending > 0) {
+        charge(Math.ceil(pending));
+        pending = 0;
+      }
+      await chargeQueue;
+    },
+    charged: () => charged,
+    outOfCredits: () => outOfCredits,
+  };
+}
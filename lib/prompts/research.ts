@@ -12,9 +12,16 @@ export type AgentRole =
   | 'intake'
   | 'brain_evaluate'
   | 'brain_finish'
+  | 'reviewer'
   | 'researcher'
   | 'search';
 
+// Notes the user sent while the run was going - every research prompt includes them
+export function steeringBlock(notes?: string[]): string {
+  if (!notes || notes.length === 0) return '';
+  return `\nUser steering notes (sent during the research - follow them; they override the original plan where they conflict):\n${notes.map(n => `- ${n}`).join('\n')}\n`;
+}
+
 // ------------------------------------------------------------------
 // ------ > INTAKE AGENT (The Gatekeeper)
 // ------------------------------------------------------------------
@@ -59,19 +66,62 @@ export function brainEvalPrompt(args: {
   completedQuestionsCount: number;
   questionsContext: string;
   isFirstBatch?: boolean;
+  remainingBudget?: string;
+  criteriaStatus?: Array<'unmet' | 'partial' | 'met'>; // last evaluate's judgement, per criterion
+  openQuestionsContext?: string; // pending/running questions, numbered after the completed ones
+  nextQuestionNumber?: number; // [Qn] of the first new question
+  hypothesesContext?: string; // the hypothesis board, [Hn] (status) statement
+  nextHypothesisNumber?: number;
+  steeringNotes?: string[];
+  midRound?: boolean; // a check while questions are still running - prune only
 }): string {
   const criteria = (args.successCriteria && args.successCriteria.length > 0)
-    ? args.successCriteria.map(c => `- ${c}`).join('\n')
+    ? args.successCriteria.map((c, i) => {
+      const status = args.criteriaStatus?.[i];
+      return `- [C${i + 1}] ${c}${status ? ` (last judged: ${status})` : ''}`;
+    }).join('\n')
     : '(none provided)';
 
   const completed = args.isFirstBatch
     ? 'No completed research yet.'
     : `Completed research (${args.completedQuestionsCount}):\n${args.questionsContext}`;
 
+  const open = args.openQuestionsContext
+    ? `\nNot finished yet (you may kill these):\n${args.openQuestionsContext}\n`
+    : '';
+
+  const hypotheses = `Hypotheses so far:\n${args.hypothesesContext || '(none yet)'}\n`;
+
+  const midRound = args.midRound
+    ? `\nThis is a check while the questions above are still running, after one of them finished.
+Use it to prune: kill unfinished questions the new findings made irrelevant, redundant or a dead end (a running one is cancelled), and merge duplicates.
+Don't propose new questions and answer "continue" - the next round is planned once the running questions finish.\n`
+    : '';
+
+  const budget = args.remainingBudget
+    ? `\nRemaining budget for this run:\n${args.remainingBudget}
+Plan within it: when it runs low, propose fewer questions (or only the most decisive one), or say "done" if another round wouldn't fit.\n`
+    : '';
+
   return `Role: Brain.evaluate (planner)
 Objective: ${args.objective}
 Success criteria:\n${criteria}
 ${completed}
+${open}
+${hypotheses}${budget}${steeringBlock(args.steeringNotes)}${midRound}
+Completed research is given as findings: atomic claims with their confidence and source domains.
+Judge coverage by those facts - a criterion backed only by low-confidence or unsourced findings is not met yet.
+
+Keep the success-criteria checklist: for every [Cn], judge it against the completed research now -
+"met" (findings answer it with medium/high confidence), "partial" (some of it, or only weak evidence) or "unmet".
+List the [Qn] questions whose findings support it, and one sentence of evidence (or what's still missing).
+Say "done" only when every criterion is met, or when more research can't move the rest.
+
+Work in hypotheses: bets about the answer that research can support or refute (e.g. "Conference speakers are better buyer signals than job titles").
+- Each round, re-judge every hypothesis from the findings: "open", "supported" or "refuted", with the [Qn] questions that support or refute it.
+- Add new hypotheses when the findings suggest a new angle - number them from [H${args.nextHypothesisNumber ?? 1}].
+- A refuted hypothesis is a dead end: pivot to a new one instead of digging further.
+- Every new question must test one hypothesis: put its [Hn] number in "hypothesis".
 
 Think of your job like this: you're choosing the next 1–3 research moves that will most increase our confidence in the main objective.
 If we're already confident enough to answer, say "done". If not, say "continue" and propose the next best questions.
@@ -86,7 +136,17 @@ If you can't explain "how does answering this help?", it's not the right questio
 Each research question should be only asking a single question. We need to be ultra specific so we won't drift. (Don't include "how.. and.. how..") 
 Each research question should be asking for ONE thing.
 
-Write questions so they stand alone (no assumed context) and keep them short (<= 15 words).
+Write questions so they stand alone (no assumed context beyond the answers they depend on) and keep them short (<= 15 words).
+
+Besides new questions, you can act on existing ones (refer to them by their [Qn] number):
+- drill down: a new question that digs deeper into one completed question's finding - set its parent to that [Qn].
+- kill: drop a question that became irrelevant or a dead end. An unfinished one won't run; a completed one is left out of the final answer.
+- merge: fold a completed question into another completed one that covers the same ground (both answers are kept under the second).
+Only act when it clearly helps; empty lists are normal.
+
+New questions are numbered from [Q${args.nextQuestionNumber ?? 1}] in the order you list them.
+When one question needs another's answer first (e.g. "find the top vendors" → "price each vendor"), list that question's number in its dependsOn:
+it only starts once those are done, and gets their answers. Only earlier numbers; keep dependsOn empty for independent questions so they run in parallel.
 
 Prioritize questions that directly produce the deliverables implied by the objective.
 Avoid detours (e.g., “prove the pain with examples”) unless the objective explicitly requires that deliverable.
@@ -96,7 +156,11 @@ Return JSON:
   decision: "continue" | "done",
   reason: string,
   reasoning: string,
-  questions: Array<{ question: string, description: string, goal: string }>
+  criteria: Array<{ criterion: number, status: "unmet" | "partial" | "met", questions: number[], evidence: string }>,
+  hypotheses: Array<{ hypothesis: number, statement: string, status: "open" | "supported" | "refuted", supporting: number[], refuting: number[] }>,
+  questions: Array<{ question: string, description: string, goal: string, parent: number | null, dependsOn: number[], hypothesis: number }>,
+  kill: Array<{ question: number, reason: string }>,
+  merge: Array<{ question: number, into: number, reason: string }>
 }
 
 For each question:
@@ -113,26 +177,97 @@ export function brainFinishPrompt(args: {
   objective: string;
   successCriteria?: string[];
   questionsContext: string;
+  sourcesList?: string; // numbered sources the findings cite as [n]
+  partial?: boolean;
+  budgetLimit?: string; // run hit this budget limit before the brain said done
+  reviewNotes?: string; // reviewer's critique of the previous draft
+  steeringNotes?: string[];
 }): string {
   const criteria = (args.successCriteria && args.successCriteria.length > 0)
     ? args.successCriteria.map(c => `- ${c}`).join('\n')
     : '(none provided)';
 
+  const partialRule = args.partial
+    ? `\n- The user stopped the research early. Open with one line saying these are partial results, and list which parts of the objective are still unanswered.`
+    : '';
+
+  const budgetRule = args.budgetLimit
+    ? `\n- The research ran out of its ${args.budgetLimit} budget before it was complete. Say in one line which parts of the objective could not be covered.`
+    : '';
+
+  const reviewRule = args.reviewNotes
+    ? `\n- A reviewer checked your previous draft:\n${args.reviewNotes}\n  Fix what it flags: drop or qualify unsupported claims, and cover (or explicitly state as missing) the missing items.`
+    : '';
+
   return `Role: Brain.finish
 Goal: write the final answer for the user based ONLY on the findings provided.
 
 Objective: ${args.objective}
 Success criteria:\n${criteria}
 Findings:\n${args.questionsContext}
-
+Sources:\n${args.sourcesList || '(none)'}
+${steeringBlock(args.steeringNotes)}
 Rules:
 - Answer the objective directly (no meta commentary).
-- If a success criterion is unmet, say what’s missing and why.
+- Keep the findings' [n] citations on the claims they support (e.g. "... grew 40% [3]"). Only use numbers from Sources; don't add a sources list yourself.
+- If a success criterion is unmet, say what’s missing and why.${partialRule}${budgetRule}${reviewRule}
 
 Return JSON: { answer }`;
 }
 
 
+// ------------------------------------------------------------------
+// ------ > REVIEWER (The Critic)
+// ------------------------------------------------------------------
+// Role is to check Brain.finish's draft before the user sees it.
+export function reviewerPrompt(args: {
+  objective: string;
+  successCriteria?: string[];
+  draft: string; // with its numbered Sources list
+  questionsContext: string;
+  canFollowUp: boolean; // false = the draft gets rewritten, but no more research
+  remainingBudget?: string;
+  steeringNotes?: string[];
+}): string {
+  const criteria = (args.successCriteria && args.successCriteria.length > 0)
+    ? args.successCriteria.map(c => `- ${c}`).join('\n')
+    : '(none provided)';
+
+  const followUp = args.canFollowUp
+    ? `If a gap could be closed with a little more web research, propose up to 2 follow-up questions that target exactly that gap (same format as the planner: short, one unknown each).
+Only propose them when the missing piece matters for a success criterion.${args.remainingBudget ? `\nRemaining budget:\n${args.remainingBudget}` : ''}`
+    : 'No more research is possible for this run: return no questions.';
+
+  return `Role: Reviewer (critic)
+Goal: check the draft answer before it goes to the user. You don't write the answer - you list what's wrong with it.
+
+Objective: ${args.objective}
+Success criteria:\n${criteria}
+${steeringBlock(args.steeringNotes)}
+Research findings (what the draft may rely on):
+${args.questionsContext}
+
+Draft answer:
+${args.draft}
+
+Check:
+- Criteria: is each success criterion answered? List the ones that aren't (or only partly) under "missing".
+- Support: every factual claim must be backed by the findings. List claims that aren't (made up, overstated, uncited, or contradicting a finding) under "unsupportedClaims", quoted briefly.
+- Verdict: "pass" only if nothing important is missing or unsupported. Otherwise "revise".
+
+${followUp}
+
+Return JSON:
+{
+  verdict: "pass" | "revise",
+  critique: string, // 1-3 sentences for the user: what the draft gets right and what it lacks
+  missing: string[],
+  unsupportedClaims: string[],
+  questions: Array<{ question: string, description: string, goal: string }>
+}`;
+}
+
+
 // ------------------------------------------------------------------
 // ------ > RESEARCHER (The Worker)
 // ------------------------------------------------------------------
@@ -140,12 +275,19 @@ export function researchQuestionEvalPrompt(args: {
   objective: string;
   question: string;
   goal?: string;
+  dependencyAnswers?: string; // answers of the questions this one depends on
+  steeringNotes?: string[];
 }): string {
+  const dependencies = args.dependencyAnswers
+    ? `\nEarlier research this sub-question builds on:\n${args.dependencyAnswers}
+Use it: when the sub-question refers to earlier results (e.g. "each vendor"), that's what it means. Don't re-research it - search for what's new.\n`
+    : '';
+
   return `Role: Researcher.evaluate (web-search loop)
 Objective: ${args.objective}
 Sub-question: ${args.question}
 Goal: ${args.goal || '(not provided)'}
-
+${dependencies}${steeringBlock(args.steeringNotes)}
 Think like a detective: after each search result, ask "what is the ONE missing piece that blocks answering the sub-question?"
 If you already have enough evidence to answer clearly, decide "done".
 If not, decide "continue" and propose the NEXT query that targets that missing piece.
@@ -159,7 +301,13 @@ Write something you could read out loud.
 Avoid keyword lists, quotes, and Boolean-style chains.
 Include the key entity + the missing detail you need (e.g., timeframe / location / role).
 
-Return JSON: { decision: "continue"|"done", reasoning: string, query: string }`;
+Reading sources: search answers are summaries. When one of the listed sources likely holds the missing piece
+(exact figures, primary documents, official pages), choose action "read" with that source's URL instead of another search.
+Read only URLs listed under a search's Sources, and only when the full page is worth it.
+
+Also rate the step you just saw: lastStepUseful = true only if it added new, relevant information.
+
+Return JSON: { decision: "continue"|"done", reasoning: string, lastStepUseful: boolean, action: "search"|"read", query: string, url: string }`;
 }
 
 
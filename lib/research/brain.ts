@@ -9,9 +9,11 @@
 import { generateText, Output } from 'ai';
 import { openai } from '@ai-sdk/openai';
 import { z } from 'zod';
-import type { ResearchQuestionMemory } from './types';
-import { createQuestion } from './types';
+import type { ResearchQuestionMemory, CallOptions, Citation, SuccessCriterion, Hypothesis } from './types';
+import { createQuestion, generateId } from './types';
+import { toCallUsage } from './budget';
 import { brainEvalPrompt, brainFinishPrompt } from '@/lib/prompts/research';
+import { buildBibliography, formatSourceList, mergeSources } from './citations';
 import { trackLlmCall } from '@/lib/eval';
 
 const model = openai('gpt-5.2');
@@ -24,13 +26,46 @@ const QuestionSchema = z.object({
   question: z.string().describe('One focused research question/task (short, scoped)'),
   description: z.string().describe('One sentence: what we learn + how it helps the main objective'),
   goal: z.string().describe('Concrete success condition for this question'),
+  parent: z.number().nullable().describe('Drill-down: number of the completed question it digs into, e.g. 2 for [Q2]; null for a new line of research'),
+  dependsOn: z.array(z.number()).describe('Numbers of earlier questions whose answers this one needs first; [] when independent'),
+  hypothesis: z.number().describe('Number of the hypothesis this question tests, e.g. 1 for [H1]'),
+});
+
+const HypothesisSchema = z.object({
+  hypothesis: z.number().describe('An existing [Hn] to update, or the next free number for a new hypothesis'),
+  statement: z.string().describe('One testable claim (new hypotheses; existing ones keep their statement)'),
+  status: z.enum(['open', 'supported', 'refuted']),
+  supporting: z.array(z.number()).describe('Numbers of completed questions whose findings support it'),
+  refuting: z.array(z.number()).describe('Numbers of completed questions whose findings contradict it'),
+});
+
+const KillSchema = z.object({
+  question: z.number().describe('Number of the question to drop, e.g. 3 for [Q3]'),
+  reason: z.string(),
+});
+
+const MergeSchema = z.object({
+  question: z.number().describe('Number of the duplicate completed question'),
+  into: z.number().describe('Number of the completed question it duplicates (keeps both answers)'),
+  reason: z.string(),
+});
+
+const CriterionSchema = z.object({
+  criterion: z.number().describe('Criterion number, e.g. 2 for [C2]'),
+  status: z.enum(['unmet', 'partial', 'met']),
+  questions: z.array(z.number()).describe('Numbers of the completed questions whose findings support it, e.g. 1 for [Q1]'),
+  evidence: z.string().describe('One sentence: what backs this status, or what is still missing'),
 });
 
 const EvaluateSchema = z.object({
   reasoning: z.string(),
   reason: z.string(),
   decision: z.enum(['continue', 'done']),
+  criteria: z.array(CriterionSchema),
+  hypotheses: z.array(HypothesisSchema),
   questions: z.array(QuestionSchema).max(3),
+  kill: z.array(KillSchema),
+  merge: z.array(MergeSchema),
 });
 
 const FinishSchema = z.object({
@@ -41,60 +76,225 @@ const FinishSchema = z.object({
 // Evaluate - Look at completed questions, decide continue/done
 // ============================================================
 
+// A question as facts: its findings (with confidence and source domains), or its prose
+// answer for questions finished before findings existed. Also what the reviewer checks against.
+export function formatQuestionFindings(q: ResearchQuestionMemory, label?: string): string {
+  const header = `### ${label ? `[${label}] ` : ''}${q.question}\n**Confidence:** ${q.confidence || 'unknown'}`;
+  if (!q.findings || q.findings.length === 0) {
+    return `${header}\n**Answer:** ${q.answer || 'No answer'}`;
+  }
+
+  const domain = (url: string) => {
+    try {
+      return new URL(url).hostname.replace(/^www\./, '');
+    } catch {
+      return url;
+    }
+  };
+  const findings = q.findings.map(f => {
+    const sources = f.sources.length > 0 ? f.sources.map(s => domain(s.url)).join(', ') : 'unsourced';
+    return `- ${f.claim} (${f.confidence}; ${sources})`;
+  });
+  return `${header}\n**Findings:**\n${findings.join('\n')}`;
+}
+
 export interface EvaluateResult {
   reasoning: string;
   reason: string;
   decision: 'continue' | 'done';
-  questions?: ResearchQuestionMemory[];
+  questions?: ResearchQuestionMemory[]; // drill-downs have parentId set
+  criteria?: SuccessCriterion[]; // the checklist as judged now (unset when none was passed in)
+  hypotheses: Hypothesis[]; // the board as judged now - existing ones the model skipped are unchanged
+  kill?: Array<{ questionId: string; reason: string }>;
+  merge?: Array<{ questionId: string; intoId: string; reason: string }>; // both completed
+}
+
+export interface EvaluateOptions extends CallOptions {
+  remainingBudget?: string; // describeRemainingBudget() - lets the brain size the next round
+  criteria?: SuccessCriterion[]; // current checklist - its texts replace successCriteria
+  openQuestions?: ResearchQuestionMemory[]; // pending/running questions the brain may kill
+  midRound?: boolean; // questions are still running: only prune (kill/merge), no new questions
+  hypotheses?: Hypothesis[]; // current board - [Hn] is hypotheses[n - 1]
+}
+
+// The hypothesis board as the prompt shows it: [Hn] (status) statement - supporting/refuting [Qn]
+function formatHypotheses(hypotheses: Hypothesis[], completedQuestions: ResearchQuestionMemory[]): string | undefined {
+  if (hypotheses.length === 0) return undefined;
+  const labels = (ids: string[]) => ids
+    .map(id => completedQuestions.findIndex(q => q.id === id))
+    .filter(i => i !== -1)
+    .map(i => `[Q${i + 1}]`)
+    .join(', ');
+  return hypotheses.map((h, i) => {
+    const evidence = [
+      h.supportingIds.length > 0 ? `supported by ${labels(h.supportingIds)}` : '',
+      h.refutingIds.length > 0 ? `refuted by ${labels(h.refutingIds)}` : '',
+    ].filter(Boolean).join('; ');
+    return `- [H${i + 1}] (${h.status}) ${h.statement}${evidence ? ` - ${evidence}` : ''}`;
+  }).join('\n');
+}
+
+/**
+ * Repair for a question citing an [Hn] that doesn't exist: the hypothesis whose statement shares
+ * the most words with it, open ones first on a tie (the only one, if the board has one).
+ * Undefined only when the board is empty.
+ */
+export function closestHypothesis(question: string, hypotheses: Hypothesis[]): Hypothesis | undefined {
+  const words = (text: string) => new Set(text.toLowerCase().match(/[a-z0-9]{4,}/g) || []);
+  const questionWords = words(question);
+  const score = (h: Hypothesis) => [...words(h.statement)].filter(w => questionWords.has(w)).length;
+
+  let best: Hypothesis | undefined;
+  let bestScore = -1;
+  for (const h of hypotheses) {
+    const s = score(h);
+    if (s > bestScore || (s === bestScore && best?.status !== 'open' && h.status === 'open')) {
+      best = h;
+      bestScore = s;
+    }
+  }
+  return best;
 }
 
 export async function evaluate(
   objective: string,
   completedQuestions: ResearchQuestionMemory[],
-  successCriteria?: string[]
+  successCriteria?: string[],
+  options: EvaluateOptions = {}
 ): Promise<EvaluateResult> {
   const isFirstBatch = completedQuestions.length === 0;
   const questionsContext = completedQuestions.length > 0
-    ? completedQuestions.map(q =>
-        `### ${q.question}\n**Confidence:** ${q.confidence || 'unknown'}\n**Answer:** ${q.answer || 'No answer'}`
-      ).join('\n\n')
+    ? completedQuestions.map((q, i) => formatQuestionFindings(q, `Q${i + 1}`)).join('\n\n')
     : '(No research completed yet)';
 
+  // Open questions are numbered after the completed ones: [Qn] is labeled[n - 1]
+  const openQuestions = options.openQuestions || [];
+  const labeled = [...completedQuestions, ...openQuestions];
+  const isCompleted = (n: number) => n >= 1 && n <= completedQuestions.length;
+
   const prompt = brainEvalPrompt({
     objective,
-    successCriteria,
+    successCriteria: options.criteria ? options.criteria.map(c => c.text) : successCriteria,
+    criteriaStatus: options.criteria?.map(c => c.status),
     completedQuestionsCount: completedQuestions.length,
     questionsContext,
     isFirstBatch,
+    remainingBudget: options.remainingBudget,
+    nextQuestionNumber: labeled.length + 1,
+    hypothesesContext: formatHypotheses(options.hypotheses || [], completedQuestions),
+    nextHypothesisNumber: (options.hypotheses || []).length + 1,
+    steeringNotes: options.steeringNotes?.(),
+    midRound: options.midRound,
+    openQuestionsContext: openQuestions.length > 0
+      ? openQuestions.map((q, i) => `- [Q${completedQuestions.length + i + 1}] ${q.question} (${q.status})`).join('\n')
+      : undefined,
   });
 
   const result = await generateText({
     model,
     // PROMPT GOAL (Brain.evaluate): Decide whether to continue researching, and if so, which questions to run next.
-    // Input = objective + completed question summaries. Output = { decision, reasoning, questions[] }.
+    // Input = objective + completed questions' findings. Output = { decision, reasoning, questions[] }.
     // Important: Brain does NOT search the web. It only plans/decides.
     prompt,
     output: Output.object({ schema: EvaluateSchema }),
+    abortSignal: options.abortSignal,
   });
 
   const data = result.output as z.infer<typeof EvaluateSchema>;
+  options.onUsage?.(toCallUsage('llm', 'gpt-5.2', result.usage));
 
   // Track for evaluation
   trackLlmCall({
     agentId: 'cSZaU3rjiQxw', // Brain Evaluate
     model: 'gpt-5.2',
     systemPrompt: prompt,
-    input: { objective, successCriteria, completedQuestionsCount: completedQuestions.length },
+    input: {
+      objective,
+      successCriteria,
+      completedQuestionsCount: completedQuestions.length,
+      openQuestionsCount: openQuestions.length,
+      midRound: Boolean(options.midRound),
+      remainingBudget: options.remainingBudget,
+    },
     output: data,
   }).catch(() => {}); // Fire and forget
 
+  // [Cn]/[Qn] back to the checklist and question ids - criteria the model skipped keep their last status
+  const criteria = options.criteria?.map((c, i) => {
+    const update = data.criteria.find(u => u.criterion === i + 1);
+    if (!update) return c;
+    return {
+      ...c,
+      status: update.status,
+      questionIds: update.questions.flatMap(n => completedQuestions[n - 1] ? [completedQuestions[n - 1].id] : []),
+      evidence: update.evidence,
+    };
+  });
+
+  // [Hn] updates onto the board; numbers past the end are new hypotheses (in the order given)
+  const completedIds = (numbers: number[]) =>
+    [...new Set(numbers)].flatMap(n => (isCompleted(n) ? [completedQuestions[n - 1].id] : []));
+  const hypotheses = [...(options.hypotheses || [])];
+  const hypothesisIds = new Map<number, string>(hypotheses.map((h, i) => [i + 1, h.id]));
+  for (const h of [...data.hypotheses].sort((a, b) => a.hypothesis - b.hypothesis)) {
+    const update = {
+      status: h.status,
+      supportingIds: completedIds(h.supporting),
+      refutingIds: completedIds(h.refuting),
+    };
+    const existing = hypothesisIds.get(h.hypothesis);
+    if (existing) {
+      const index = hypotheses.findIndex(x => x.id === existing);
+      hypotheses[index] = { ...hypotheses[index], ...update };
+    } else if (h.hypothesis > (options.hypotheses || []).length && h.statement.trim()) {
+      const created: Hypothesis = { id: `h_${generateId()}`, statement: h.statement.trim(), ...update };
+      hypotheses.push(created);
+      hypothesisIds.set(h.hypothesis, created.id);
+    }
+  }
+
+  // Actions on existing questions - anything pointing at an unknown [Qn] is ignored
+  const kill = data.kill
+    .filter(k => labeled[k.question - 1])
+    .map(k => ({ questionId: labeled[k.question - 1].id, reason: k.reason }));
+  const merge = data.merge
+    .filter(m => isCompleted(m.question) && isCompleted(m.into) && m.question !== m.into)
+    .map(m => ({ questionId: labeled[m.question - 1].id, intoId: labeled[m.into - 1].id, reason: m.reason }));
+
+  // Every question tests a hypothesis - an unknown [Hn] is tied to the closest one instead
+  const hypothesisFor = (q: z.infer<typeof QuestionSchema>) => {
+    const id = hypothesisIds.get(q.hypothesis);
+    if (id) return id;
+    const closest = closestHypothesis(q.question, hypotheses);
+    console.warn(`[Brain] "${q.question}" cites unknown [H${q.hypothesis}] - ${closest ? `using "${closest.statement}"` : 'no hypotheses yet'}`);
+    return closest?.id;
+  };
+
+  // New questions continue the numbering; a dependency must come earlier, so the graph has no cycles.
+  // A mid-round check only prunes - whatever it proposes waits for the round's own evaluate.
+  const proposed = options.midRound ? [] : data.questions;
+  const spawned = proposed.map(q => createQuestion(q.question, q.description, q.goal, 0)); // round set by run.ts
+  const questionAt = (n: number) => (n <= labeled.length ? labeled[n - 1] : spawned[n - labeled.length - 1]);
+  const questions = proposed.map((q, i) => {
+    const number = labeled.length + i + 1;
+    const dependsOn = [...new Set(q.dependsOn)].filter(n => n >= 1 && n < number).map(n => questionAt(n).id);
+    return {
+      ...spawned[i],
+      parentId: q.parent !== null && isCompleted(q.parent) ? labeled[q.parent - 1].id : undefined,
+      dependsOn: dependsOn.length > 0 ? dependsOn : undefined,
+      hypothesisId: hypothesisFor(q),
+    };
+  });
+
   return {
     reasoning: data.reasoning,
     reason: data.reason,
-    decision: data.decision,
-    questions: data.questions.length > 0
-      ? data.questions.map(q => createQuestion(q.question, q.description, q.goal, 0)) // round set by run.ts
-      : undefined,
+    decision: options.midRound ? 'continue' : data.decision,
+    criteria,
+    hypotheses,
+    questions: questions.length > 0 ? questions : undefined,
+    kill: kill.length > 0 ? kill : undefined,
+    merge: merge.length > 0 ? merge : undefined,
   };
 }
 
@@ -103,38 +303,59 @@ export async function evaluate(
 // ============================================================
 
 export interface FinishResult {
-  answer: string;
+  answer: string; // cites sources as [n] - no bibliography (formatWithBibliography adds it)
+  sources: Citation[]; // only the cited ones, numbered in order of first citation
+}
+
+export interface FinishOptions extends CallOptions {
+  partial?: boolean; // run was stopped early - answer must say it's partial
+  budgetLimit?: string; // run hit this budget limit - answer must say what's not covered
+  reviewNotes?: string; // reviewer's critique of the previous draft - fix what it flags
 }
 
 export async function finish(
   objective: string,
   completedQuestions: ResearchQuestionMemory[],
-  successCriteria?: string[]
+  successCriteria?: string[],
+  options: FinishOptions = {}
 ): Promise<FinishResult> {
+  // Question answers cite their own sources - renumber them all onto one list
+  const merged = mergeSources(completedQuestions);
   const questionsContext = completedQuestions.map(q =>
-    `### ${q.question}\n**Confidence:** ${q.confidence || 'unknown'}\n${q.answer || 'No answer'}`
+    `### ${q.question}\n**Confidence:** ${q.confidence || 'unknown'}\n${merged.answers.get(q.id) || 'No answer'}`
   ).join('\n\n---\n\n');
 
-  const prompt = brainFinishPrompt({ objective, successCriteria, questionsContext });
+  const prompt = brainFinishPrompt({
+    objective,
+    successCriteria,
+    questionsContext,
+    sourcesList: merged.sources.length > 0 ? formatSourceList(merged.sources) : undefined,
+    partial: options.partial,
+    budgetLimit: options.budgetLimit,
+    reviewNotes: options.reviewNotes,
+    steeringNotes: options.steeringNotes?.(),
+  });
 
   const result = await generateText({
     model,
     // PROMPT GOAL (Brain.finish): Write the final user-facing answer from completed question summaries.
-    // Output = { answer } only (no citations/sources are plumbed through today).
+    // Output = { answer } with [n] markers into the merged source list; the bibliography is built here.
     prompt,
     output: Output.object({ schema: FinishSchema }),
+    abortSignal: options.abortSignal,
   });
 
   const data = result.output as z.infer<typeof FinishSchema>;
+  options.onUsage?.(toCallUsage('llm', 'gpt-5.2', result.usage));
 
   // Track for evaluation
   trackLlmCall({
     agentId: 'Uy4dSnQuHdzi', // Brain Finish
     model: 'gpt-5.2',
     systemPrompt: prompt,
-    input: { objective, successCriteria, completedQuestionsCount: completedQuestions.length },
+    input: { objective, successCriteria, completedQuestionsCount: completedQuestions.length, partial: options.partial, budgetLimit: options.budgetLimit },
     output: data,
   }).catch(() => {}); // Fire and forget
 
-  return { answer: data.answer };
+  return buildBibliography(data.answer, merged.sources);
 }
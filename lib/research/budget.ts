@@ -0,0 +1,118 @@
+/**
+ * Research Budget - Per-run limits on credits, searches, tokens and wall time
+ *
+ * The tracker is fed by CallOptions.onUsage from every brain/researcher/search call
+ * (credits are priced by lib/metering.ts, the same rates the user is charged).
+ * run.ts stops planning new work once a limit is hit and goes straight to Brain.finish;
+ * the researcher stops searching and summarizes what it has.
+ */
+
+import type { ResearchBudget, BudgetSpent, CallUsage } from './types';
+import { creditsForUsage } from '@/lib/metering';
+
+// ============================================================
+// Defaults
+// ============================================================
+
+export const DEFAULT_BUDGET: Required<ResearchBudget> = {
+  maxCredits: 2000,
+  maxSearches: 100,
+  maxTokens: 2_000_000,
+  maxTimeMs: 15 * 60 * 1000, // 15 minutes
+  minSearchesPerQuestion: 3,
+  maxSearchesPerQuestion: 15,
+};
+
+/**
+ * AI SDK result.usage → CallUsage (providers may leave counts undefined)
+ */
+export function toCallUsage(
+  kind: CallUsage['kind'],
+  model: string,
+  usage?: { inputTokens?: number; outputTokens?: number }
+): CallUsage {
+  return { kind, model, inputTokens: usage?.inputTokens || 0, outputTokens: usage?.outputTokens || 0 };
+}
+
+// ============================================================
+// Tracker
+// ============================================================
+
+export type BudgetLimit = 'credits' | 'searches' | 'tokens' | 'time';
+
+export interface BudgetRemaining {
+  credits: number;
+  searches: number;
+  tokens: number;
+  timeMs: number;
+}
+
+export interface BudgetTracker {
+  limits: Required<ResearchBudget>;
+  record(usage: CallUsage): void;
+  spent(): BudgetSpent;
+  elapsedMs(): number;
+  /** Stop the clock (waiting on the user) - call the returned function to restart it */
+  pause(): () => void;
+  remaining(): BudgetRemaining;
+  /** First limit that has been hit, or null while there is budget left */
+  exhausted(): BudgetLimit | null;
+}
+
+export function createBudgetTracker(
+  budget: ResearchBudget = {},
+  resumeFrom: { spent?: BudgetSpent; elapsedMs?: number } = {}
+): BudgetTracker {
+  const limits: Required<ResearchBudget> = { ...DEFAULT_BUDGET };
+  for (const [key, value] of Object.entries(budget) as Array<[keyof ResearchBudget, number | undefined]>) {
+    if (typeof value === 'number' && value > 0) limits[key] = value;
+  }
+
+  const spent: BudgetSpent = { credits: 0, searches: 0, tokens: 0, ...resumeFrom.spent };
+  const startTime = Date.now() - (resumeFrom.elapsedMs || 0);
+  let pausedMs = 0;
+
+  const tracker: BudgetTracker = {
+    limits,
+    record(usage) {
+      spent.tokens += usage.inputTokens + usage.outputTokens;
+      spent.credits += creditsForUsage(usage);
+      if (usage.kind === 'search') spent.searches++;
+    },
+    spent: () => ({ ...spent }),
+    elapsedMs: () => Date.now() - startTime - pausedMs,
+    pause() {
+      const pausedAt = Date.now();
+      return () => { pausedMs += Date.now() - pausedAt; };
+    },
+    remaining: () => ({
+      credits: Math.max(0, limits.maxCredits - spent.credits),
+      searches: Math.max(0, limits.maxSearches - spent.searches),
+      tokens: Math.max(0, limits.maxTokens - spent.tokens),
+      timeMs: Math.max(0, limits.maxTimeMs - tracker.elapsedMs()),
+    }),
+    exhausted() {
+      if (spent.credits >= limits.maxCredits) return 'credits';
+      if (spent.searches >= limits.maxSearches) return 'searches';
+      if (spent.tokens >= limits.maxTokens) return 'tokens';
+      if (tracker.elapsedMs() >= limits.maxTimeMs) return 'time';
+      return null;
+    },
+  };
+
+  return tracker;
+}
+
+/**
+ * Remaining budget as a short block for the Brain.evaluate prompt
+ */
+export function describeRemainingBudget(tracker: BudgetTracker): string {
+  const r = tracker.remaining();
+  const { minSearchesPerQuestion, maxSearchesPerQuestion } = tracker.limits;
+  return [
+    `- Searches: ${r.searches} left (each question uses ${minSearchesPerQuestion}–${maxSearchesPerQuestion})`,
+    `- Credits: ~${Math.floor(r.credits)} left`,
+    `- LLM tokens: ~${Math.round(r.tokens / 1000)}k left`,
+    `- Time: ~${Math.ceil(r.timeMs / 60000)} min left`,
+  ].join('\n');
+}
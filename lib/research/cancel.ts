@@ -0,0 +1,54 @@
+/**
+ * Research Cancellation - Cooperative stop signal for running research
+ *
+ * The message route registers an AbortController per chat session.
+ * POST /api/sessions/[id]/stop calls requestStop(), and runResearch checks the
+ * signal between rounds/searches and passes it into every LLM + search call.
+ */
+
+import type { RunMetrics } from './types';
+
+export class ResearchStoppedError extends Error {
+  constructor(public readonly metrics?: RunMetrics) {
+    super('Research stopped by user');
+    this.name = 'ResearchStoppedError';
+  }
+}
+
+// In-process registry: chatSessionId → controller of the run currently in flight
+const activeRuns = new Map<string, AbortController>();
+
+export function registerRun(chatSessionId: string): AbortController {
+  activeRuns.get(chatSessionId)?.abort();
+  const controller = new AbortController();
+  activeRuns.set(chatSessionId, controller);
+  return controller;
+}
+
+export function unregisterRun(chatSessionId: string, controller: AbortController): void {
+  // Only remove our own controller (a newer run may have replaced it)
+  if (activeRuns.get(chatSessionId) === controller) {
+    activeRuns.delete(chatSessionId);
+  }
+}
+
+/**
+ * Abort the run for this session if it lives in this process.
+ * Returns false if no local run was found (runResearch also polls the DB status).
+ */
+export function requestStop(chatSessionId: string): boolean {
+  const controller = activeRuns.get(chatSessionId);
+  if (!controller) return false;
+  controller.abort();
+  return true;
+}
+
+export function throwIfStopped(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new ResearchStoppedError();
+  }
+}
+
+export function isStopError(error: unknown): boolean {
+  return error instanceof ResearchStoppedError || (error as Error | undefined)?.name === 'AbortError';
+}
@@ -0,0 +1,144 @@
+/**
+ * Citations - numbered sources from search/read events through to the final answer
+ *
+ *   Researcher: its question's sources are numbered [1..n] (collectSources); its answer cites them.
+ *   Brain.finish: question sources are merged into one deduplicated list, question answers are
+ *   renumbered onto it (mergeSources), and the final answer keeps only what it cites, numbered
+ *   in order of first use (buildBibliography).
+ *   The stored answer carries a "## Sources" list; SessionView turns markers into footnote links.
+ *
+ * Pure string helpers - also used client-side.
+ */
+
+import type { Citation, ResearchQuestionEvent, ResearchQuestionMemory } from './types';
+
+export const BIBLIOGRAPHY_HEADING = '## Sources';
+
+// [3] (with the space before it, so a dropped marker leaves no gap) - but not a link label like [3](...)
+const MARKER = /( ?)\[(\d{1,3})\](?!\()/g;
+// [1, 3] / [1,2,5] → written out as [1][3]
+const GROUPED_MARKER = /\[(\d{1,3}(?:\s*,\s*\d{1,3})+)\]/g;
+
+// Same page with or without www/trailing slash/tracking params counts once
+function citationKey(url: string): string {
+  try {
+    const u = new URL(url);
+    [...u.searchParams.keys()].filter(k => k.startsWith('utm_')).forEach(k => u.searchParams.delete(k));
+    const path = u.pathname.replace(/\/+$/, '');
+    return `${u.hostname.replace(/^www\./, '').toLowerCase()}${path}${u.search}`;
+  } catch {
+    return url.trim().toLowerCase();
+  }
+}
+
+function normalizeMarkers(text: string): string {
+  return text.replace(GROUPED_MARKER, (_, list: string) => list.split(',').map(n => `[${n.trim()}]`).join(''));
+}
+
+/**
+ * Rewrite every [n] marker; a null mapping drops the marker
+ */
+function renumber(text: string, map: (n: number) => number | null): string {
+  return normalizeMarkers(text).replace(MARKER, (_, space: string, n: string) => {
+    const mapped = map(Number(n));
+    return mapped === null ? '' : `${space}[${mapped}]`;
+  });
+}
+
+/**
+ * A question's sources in order of first appearance: search sources and pages read
+ */
+export function collectSources(history: ResearchQuestionEvent[]): Citation[] {
+  const seen = new Set<string>();
+  const sources: Citation[] = [];
+  const add = (title: string, url: string) => {
+    const key = citationKey(url);
+    if (!url || seen.has(key)) return;
+    seen.add(key);
+    sources.push({ title: title || url, url });
+  };
+
+  for (const e of history) {
+    if (e.type === 'search') e.sources?.forEach(s => add(s.title, s.url));
+    if (e.type === 'read' && !e.error) add(e.title, e.url);
+  }
+  return sources;
+}
+
+export function formatSourceList(sources: Citation[]): string {
+  return sources.map((s, i) => `[${i + 1}] ${s.title} - ${s.url}`).join('\n');
+}
+
+/**
+ * Drop markers that point past the end of the source list (the model made them up)
+ */
+export function dropUnknownMarkers(text: string, sourceCount: number): string {
+  return renumber(text, n => (n >= 1 && n <= sourceCount ? n : null));
+}
+
+/**
+ * One deduplicated list over all questions, with each question's answer renumbered onto it
+ */
+export function mergeSources(questions: ResearchQuestionMemory[]): {
+  sources: Citation[];
+  answers: Map<string, string>; // questionId → answer with merged numbering
+} {
+  const sources: Citation[] = [];
+  const indexByKey = new Map<string, number>();
+  const answers = new Map<string, string>();
+
+  for (const q of questions) {
+    const local = q.sources || [];
+    const globalNumbers = local.map(s => {
+      const key = citationKey(s.url);
+      if (!indexByKey.has(key)) {
+        sources.push(s);
+        indexByKey.set(key, sources.length);
+      }
+      return indexByKey.get(key)!;
+    });
+    answers.set(q.id, renumber(q.answer || '', n => globalNumbers[n - 1] ?? null));
+  }
+
+  return { sources, answers };
+}
+
+/**
+ * Keep only the sources the answer cites, renumbered 1..k in order of first citation
+ */
+export function buildBibliography(answer: string, sources: Citation[]): { answer: string; sources: Citation[] } {
+  const order = new Map<number, number>(); // old number → new number
+  const cited: Citation[] = [];
+
+  const renumbered = renumber(answer, n => {
+    if (n < 1 || n > sources.length) return null;
+    if (!order.has(n)) {
+      cited.push(sources[n - 1]);
+      order.set(n, cited.length);
+    }
+    return order.get(n)!;
+  });
+
+  return { answer: renumbered, sources: cited };
+}
+
+/**
+ * Answer text as stored (research_sessions.final_answer, chat message): body + "## Sources" list
+ */
+export function formatWithBibliography(answer: string, sources: Citation[]): string {
+  if (sources.length === 0) return answer;
+  const list = sources.map((s, i) => `${i + 1}. [${s.title.replace(/[[\]]/g, '')}](${s.url})`).join('\n');
+  return `${answer.trimEnd()}\n\n${BIBLIOGRAPHY_HEADING}\n${list}`;
+}
+
+export function stripBibliography(text: string): string {
+  const at = text.lastIndexOf(`\n${BIBLIOGRAPHY_HEADING}\n`);
+  return at === -1 ? text : text.slice(0, at).trimEnd();
+}
+
+/**
+ * [n] → a markdown link to the footnote anchor `${anchorPrefix}-${n}`
+ */
+export function linkCitations(text: string, anchorPrefix: string): string {
+  return text.replace(MARKER, (_, space: string, n: string) => `${space}[[${n}]](#${anchorPrefix}-${n})`);
+}
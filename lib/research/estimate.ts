@@ -0,0 +1,150 @@
+/**
+ * Cost Estimate - Pre-flight credit range for a research brief
+ *
+ * Looks at what finished runs actually cost (research_sessions.credits_used, metered from
+ * their LLM calls and searches) and their search counts (search_queries), preferring runs
+ * with a similar number of success criteria. With too little history it falls back to a
+ * per-question model priced with the same rates as metering. The range is capped at the
+ * run's budget - a run never spends past it - and flagged when the work would likely need more.
+ */
+
+import { db } from '@/lib/db';
+import { researchSessions, searchQueries } from '@/lib/db/schema';
+import { and, desc, eq, gt, inArray, count } from 'drizzle-orm';
+import { creditsForUsage } from '@/lib/metering';
+import { DEFAULT_BUDGET } from './budget';
+import type { ResearchBrief } from '@/lib/agents/intake-agent';
+
+// ============================================================
+// Config
+// ============================================================
+
+const CONFIG = {
+  historyLimit: 100, // most recent finished runs to learn from
+  minSimilarRuns: 5, // below this, use all runs scaled by criteria count
+  minRuns: 3, // below this, use the fallback model
+  questionsPerCriterion: 1.5, // fallback: Brain spawns ~1-2 questions per criterion
+  typicalSearchesPerQuestion: 6,
+};
+
+export interface CostEstimate {
+  low: number; // credits
+  high: number;
+  searches: { low: number; high: number };
+  basedOnRuns: number; // 0 = fallback model, no history
+  maxCredits: number; // budget cap the run would get by default
+  overBudget: boolean; // the uncapped high end was past maxCredits - the run may stop short
+}
+
+type UncappedEstimate = Omit<CostEstimate, 'maxCredits' | 'overBudget'>;
+
+// ============================================================
+// Fallback model
+// ============================================================
+
+// One research question: searches + a researcher evaluate per search + finish
+function fallbackCreditsPerQuestion(searches: number): number {
+  const search = creditsForUsage({ kind: 'search', model: 'perplexity-sonar-pro', inputTokens: 600, outputTokens: 900 });
+  const evaluate = creditsForUsage({ kind: 'llm', model: 'gpt-5.2', inputTokens: 4000, outputTokens: 400 });
+  const finish = creditsForUsage({ kind: 'llm', model: 'gpt-5.2', inputTokens: 8000, outputTokens: 800 });
+  return searches * (search + evaluate) + finish;
+}
+
+function fallbackEstimate(criteriaCount: number): UncappedEstimate {
+  const questions = Math.max(3, Math.round(criteriaCount * CONFIG.questionsPerCriterion));
+  const { minSearchesPerQuestion } = DEFAULT_BUDGET;
+  const brain = creditsForUsage({ kind: 'llm', model: 'gpt-5.2', inputTokens: 20000, outputTokens: 3000 }); // evaluates + finish
+
+  return {
+    low: Math.ceil(questions * fallbackCreditsPerQuestion(minSearchesPerQuestion) + brain),
+    high: Math.ceil(questions * 2 * fallbackCreditsPerQuestion(CONFIG.typicalSearchesPerQuestion) + brain), // ~2 rounds
+    searches: {
+      low: questions * minSearchesPerQuestion,
+      high: questions * 2 * CONFIG.typicalSearchesPerQuestion,
+    },
+    basedOnRuns: 0,
+  };
+}
+
+// ============================================================
+// Estimate
+// ============================================================
+
+// The run stops at maxCredits, so neither end of the range can be above it
+function capToBudget(estimate: UncappedEstimate, maxCredits: number): CostEstimate {
+  return {
+    ...estimate,
+    low: Math.min(estimate.low, maxCredits),
+    high: Math.min(estimate.high, maxCredits),
+    maxCredits,
+    overBudget: estimate.high > maxCredits,
+  };
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))));
+  return sorted[index];
+}
+
+function criteriaCountOf(successCriteria: string | null): number {
+  if (!successCriteria) return 0;
+  try {
+    const parsed = JSON.parse(successCriteria);
+    return Array.isArray(parsed) ? parsed.length : 1;
+  } catch {
+    return 1;
+  }
+}
+
+export async function estimateResearchCost(brief: ResearchBrief): Promise<CostEstimate> {
+  const maxCredits = brief.budget?.maxCredits || DEFAULT_BUDGET.maxCredits;
+  const criteriaCount = brief.successCriteria?.length || 0;
+
+  const runs = await db
+    .select({
+      id: researchSessions.id,
+      creditsUsed: researchSessions.creditsUsed,
+      successCriteria: researchSessions.successCriteria,
+    })
+    .from(researchSessions)
+    .where(and(eq(researchSessions.status, 'completed'), gt(researchSessions.creditsUsed, 0)))
+    .orderBy(desc(researchSessions.createdAt))
+    .limit(CONFIG.historyLimit);
+
+  if (runs.length < CONFIG.minRuns) {
+    console.log(`[Estimate] ${runs.length} past runs - using fallback model`);
+    return capToBudget(fallbackEstimate(criteriaCount), maxCredits);
+  }
+
+  // Similar = same number of success criteria, give or take one
+  const similar = runs.filter(r => Math.abs(criteriaCountOf(r.successCriteria) - criteriaCount) <= 1);
+  const sample = similar.length >= CONFIG.minSimilarRuns ? similar : runs;
+
+  // Scale runs of a different size by criteria count (a criterion ≈ a question or two)
+  const scale = (r: typeof runs[number]) =>
+    sample === similar ? 1 : Math.max(1, criteriaCount) / Math.max(1, criteriaCountOf(r.successCriteria));
+
+  const searchCounts = await db
+    .select({ researchSessionId: searchQueries.researchSessionId, searches: count() })
+    .from(searchQueries)
+    .where(inArray(searchQueries.researchSessionId, sample.map(r => r.id)))
+    .groupBy(searchQueries.researchSessionId);
+  const searchesByRun = new Map(searchCounts.map(s => [s.researchSessionId, Number(s.searches)]));
+
+  const credits = sample.map(r => r.creditsUsed * scale(r)).sort((a, b) => a - b);
+  const searches = sample
+    .filter(r => searchesByRun.has(r.id))
+    .map(r => (searchesByRun.get(r.id) || 0) * scale(r))
+    .sort((a, b) => a - b);
+  const fallback = fallbackEstimate(criteriaCount);
+
+  return capToBudget({
+    low: Math.ceil(percentile(credits, 0.25)),
+    high: Math.ceil(percentile(credits, 0.75)),
+    searches: searches.length >= CONFIG.minRuns
+      ? { low: Math.round(percentile(searches, 0.25)), high: Math.round(percentile(searches, 0.75)) }
+      : fallback.searches,
+    basedOnRuns: sample.length,
+  }, maxCredits);
+}
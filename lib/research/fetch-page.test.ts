@@ -0,0 +1,86 @@
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { fetchPage, isPrivateAddress } from './fetch-page';
+
+const PUBLIC_URL = 'http://93.184.216.34/article'; // IP literals - no DNS in these tests
+const realFetch = globalThis.fetch;
+
+// Stub fetch with canned responses, recording every URL requested
+function stubFetch(responses: Response[]) {
+  const requested: string[] = [];
+  globalThis.fetch = (async (input: string | URL | Request) => {
+    requested.push(String(input));
+    const next = responses.shift();
+    if (!next) throw new Error('unexpected request');
+    return next;
+  }) as typeof fetch;
+  return requested;
+}
+
+const redirect = (location: string) => new Response(null, { status: 302, headers: { location } });
+const html = (body: string) => new Response(body, { headers: { 'content-type': 'text/html' } });
+
+describe('isPrivateAddress', () => {
+  it('flags loopback, private, link-local and mapped addresses', () => {
+    for (const ip of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '0.0.0.0', '100.64.0.1',
+      '::1', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', '::ffff:7f00:1']) {
+      assert.equal(isPrivateAddress(ip), true, ip);
+    }
+  });
+
+  it('lets public addresses through', () => {
+    for (const ip of ['93.184.216.34', '8.8.8.8', '172.32.0.1', '2606:4700::1111']) {
+      assert.equal(isPrivateAddress(ip), false, ip);
+    }
+  });
+});
+
+describe('fetchPage', () => {
+  const log = console.log;
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+    console.log = log;
+  });
+
+  it('refuses a private URL without requesting it', async () => {
+    console.log = () => {};
+    const requested = stubFetch([]);
+    await assert.rejects(fetchPage('http://169.254.169.254/latest/meta-data/'), /Private address/);
+    await assert.rejects(fetchPage('http://[::1]:8080/'), /Private address/);
+    assert.deepEqual(requested, []);
+  });
+
+  it('follows public redirects hop by hop', async () => {
+    console.log = () => {};
+    const requested = stubFetch([redirect('/moved'), html('<title>Moved</title><p>Hello</p>')]);
+    const page = await fetchPage(PUBLIC_URL);
+
+    assert.deepEqual(requested, [PUBLIC_URL, 'http://93.184.216.34/moved']);
+    assert.equal(page.url, 'http://93.184.216.34/moved');
+    assert.equal(page.title, 'Moved');
+  });
+
+  it('never requests a redirect hop to an internal address', async () => {
+    console.log = () => {};
+    const requested = stubFetch([redirect('http://127.0.0.1/admin'), html('secret')]);
+
+    await assert.rejects(fetchPage(PUBLIC_URL), /Private address/);
+    assert.deepEqual(requested, [PUBLIC_URL]);
+  });
+
+  it('refuses an oversized body without a content-length', async () => {
+    console.log = () => {};
+    let pulled = 0;
+    const chunk = new Uint8Array(512 * 1024).fill(0x61);
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulled++;
+        controller.enqueue(chunk); // endless chunked body
+      },
+    });
+    stubFetch([new Response(body, { headers: { 'content-type': 'text/html' } })]);
+
+    await assert.rejects(fetchPage(PUBLIC_URL), /Page too large/);
+    assert.ok(pulled < 10, `read ${pulled} chunks`);
+  });
+});
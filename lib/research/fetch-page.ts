@@ -0,0 +1,215 @@
+/**
+ * Fetch Page - Download a URL and extract its readable text
+ *
+ * The researcher's "read this source" action: search answers are a provider's synthesis,
+ * this gets the primary text behind one of their sources. No LLM involved - the HTML is
+ * stripped down to title, description and body text, truncated to fit the evaluate prompt.
+ */
+
+import { lookup } from 'node:dns/promises';
+import { isIP } from 'node:net';
+import type { CallOptions } from './types';
+
+// ============================================================
+// Config
+// ============================================================
+
+const CONFIG = {
+  timeoutMs: 15_000,
+  maxBytes: 2_000_000, // refuse anything bigger - counted as the body streams in
+  maxRedirects: 5, // each hop is checked before it's requested
+  maxContentChars: 8_000, // text kept per page (goes into researcher prompts + checkpoint)
+  userAgent: 'Mozilla/5.0 (compatible; SwarmResearch/1.0; +https://github.com/AmitayCohen1/swarm11)',
+};
+
+export interface FetchedPage {
+  url: string; // final URL after redirects
+  title: string;
+  description?: string;
+  content: string;
+  truncated: boolean;
+}
+
+// ============================================================
+// URL guard - only public http(s) pages
+// ============================================================
+
+const PRIVATE_IPV4 = /^(0\.|10\.|127\.|169\.254\.|192\.168\.|172\.(1[6-9]|2\d|3[01])\.|100\.(6[4-9]|[7-9]\d|1[01]\d|12[0-7])\.|192\.0\.0\.|198\.1[89]\.|2(2[4-9]|[3-5]\d)\.)/;
+
+/**
+ * Loopback, private, link-local (cloud metadata), CGNAT, multicast/reserved - IPv4 or IPv6
+ */
+export function isPrivateAddress(ip: string): boolean {
+  if (isIP(ip) === 4) return PRIVATE_IPV4.test(ip);
+  const v6 = ip.toLowerCase();
+  const mapped = v6.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)?.[1];
+  if (mapped) return PRIVATE_IPV4.test(mapped);
+  return v6 === '::' || v6 === '::1' || /^f[cd]/.test(v6) || /^fe[89ab]/.test(v6) || /^ff/.test(v6) || v6.startsWith('::ffff:');
+}
+
+/**
+ * Reject anything but a public http(s) URL - the hostname is resolved, so a public name
+ * pointing at an internal address is refused too
+ */
+async function assertFetchable(url: string): Promise<URL> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error('Invalid URL');
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error(`Unsupported protocol: ${parsed.protocol}`);
+  }
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal') || host.endsWith('.local')) {
+    throw new Error('Private address');
+  }
+
+  let addresses: string[];
+  if (isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = (await lookup(host, { all: true })).map(a => a.address);
+    } catch {
+      throw new Error(`Cannot resolve ${host}`);
+    }
+  }
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new Error('Private address');
+  }
+  return parsed;
+}
+
+// ============================================================
+// HTML → text
+// ============================================================
+
+const ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', mdash: '—', ndash: '–', hellip: '…',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (match, code: string) => {
+    if (code[0] === '#') {
+      const n = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(n) && n > 0 && n < 0x110000 ? String.fromCodePoint(n) : match;
+    }
+    return ENTITIES[code.toLowerCase()] ?? match;
+  });
+}
+
+function metaContent(html: string, name: string): string | undefined {
+  const tag = html.match(new RegExp(`<meta[^>]+(?:name|property)=["']${name}["'][^>]*>`, 'i'))?.[0];
+  const content = tag?.match(/content=["']([^"']*)["']/i)?.[1];
+  return content ? decodeEntities(content).trim() : undefined;
+}
+
+export function extractReadableText(html: string): { title: string; description?: string; text: string } {
+  const title = decodeEntities(html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1] || '').replace(/\s+/g, ' ').trim()
+    || metaContent(html, 'og:title')
+    || '';
+  const description = metaContent(html, 'description') || metaContent(html, 'og:description');
+
+  // Prefer the main content region when the page marks one
+  const body = html.match(/<(article|main)[^>]*>([\s\S]*?)<\/\1>/i)?.[2]
+    || html.match(/<body[^>]*>([\s\S]*?)<\/body>/i)?.[1]
+    || html;
+
+  const text = decodeEntities(
+    body
+      .replace(/<!--[\s\S]*?-->/g, ' ')
+      .replace(/<(script|style|noscript|svg|iframe|template|nav|header|footer|aside|form)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+      .replace(/<(br|\/p|\/div|\/li|\/tr|\/h[1-6]|\/section|\/article|\/blockquote)[^>]*>/gi, '\n')
+      .replace(/<li[^>]*>/gi, '- ')
+      .replace(/<[^>]+>/g, ' ')
+  )
+    .replace(/[ \t\f\v\r]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  return { title, description, text };
+}
+
+// ============================================================
+// Fetch
+// ============================================================
+
+/**
+ * The body as text, refusing it as soon as it passes maxBytes (chunked responses have no content-length)
+ */
+async function readBody(response: Response, maxBytes: number): Promise<string> {
+  if (!response.body) return '';
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let bytes = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytes += value.byteLength;
+    if (bytes > maxBytes) {
+      await reader.cancel().catch(() => {});
+      throw new Error(`Page too large (over ${maxBytes} bytes)`);
+    }
+    chunks.push(value);
+  }
+  return new TextDecoder().decode(Buffer.concat(chunks));
+}
+
+/**
+ * Throws on anything that isn't a readable public page (bad URL, HTTP error, binary content,
+ * too large, timeout). A stopped run aborts the request.
+ */
+export async function fetchPage(url: string, options: CallOptions = {}): Promise<FetchedPage> {
+  const target = await assertFetchable(url);
+  console.log('[FetchPage] GET', target.href);
+
+  const signals = [AbortSignal.timeout(CONFIG.timeoutMs)];
+  if (options.abortSignal) signals.push(options.abortSignal);
+  const signal = AbortSignal.any(signals);
+
+  // Redirects are followed by hand, so every hop passes the URL guard before it's requested
+  let current = target;
+  let response: Response;
+  for (let hop = 0; ; hop++) {
+    response = await fetch(current, {
+      headers: { 'User-Agent': CONFIG.userAgent, Accept: 'text/html,application/xhtml+xml,text/plain;q=0.9' },
+      redirect: 'manual',
+      signal,
+    });
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) break;
+
+    await response.body?.cancel().catch(() => {});
+    if (hop >= CONFIG.maxRedirects) throw new Error('Too many redirects');
+    current = await assertFetchable(new URL(location, current).href);
+  }
+
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  const finalUrl = current.href;
+
+  const contentType = response.headers.get('content-type') || '';
+  if (contentType && !/text\/html|application\/xhtml|text\/plain/i.test(contentType)) {
+    throw new Error(`Unsupported content type: ${contentType.split(';')[0]}`);
+  }
+
+  const length = Number(response.headers.get('content-length') || 0);
+  if (length > CONFIG.maxBytes) throw new Error(`Page too large (${length} bytes)`);
+
+  const raw = await readBody(response, CONFIG.maxBytes);
+  const { title, description, text } = /text\/plain/i.test(contentType)
+    ? { title: '', description: undefined, text: raw.trim() }
+    : extractReadableText(raw);
+
+  if (!text) throw new Error('No readable text');
+
+  const truncated = text.length > CONFIG.maxContentChars;
+  const content = truncated ? `${text.slice(0, CONFIG.maxContentChars)}…` : text;
+
+  console.log('[FetchPage] Extracted', content.length, 'chars from', finalUrl, truncated ? '(truncated)' : '');
+
+  return { url: finalUrl, title: title || target.hostname, description, content, truncated };
+}
@@ -2,7 +2,7 @@
  * Researcher - Question-level evaluate/finish cycle
  *
  * Same pattern as brain:
- *   evaluate(state) → continue or done?
+ *   evaluate(state) → continue or done? (and next: search the web or read a source)
  *   finish(state) → produce output
  */
 
@@ -10,28 +10,51 @@ import { generateText, Output } from 'ai';
 import { openai } from '@ai-sdk/openai';
 import { z } from 'zod';
 import { searchWeb } from './search';
-import type { ResearchQuestionMemory, ResearchQuestionEvent } from './types';
-import { researchQuestionEvalPrompt } from '@/lib/prompts/research';
+import { fetchPage } from './fetch-page';
+import type { ResearchQuestionMemory, ResearchQuestionEvent, CallOptions, Citation, Finding } from './types';
+import { generateId } from './types';
+import { throwIfStopped } from './cancel';
+import { DEFAULT_BUDGET, toCallUsage } from './budget';
+import { collectSources, dropUnknownMarkers, formatSourceList } from './citations';
+import type { BudgetTracker } from './budget';
+import { researchQuestionEvalPrompt, steeringBlock } from '@/lib/prompts/research';
 import { trackLlmCall } from '@/lib/eval';
 
 const model = openai('gpt-5.2');
 
+const MAX_READS_PER_QUESTION = 3; // full-page reads, on top of the question's search range
+
 // ============================================================
 // Schemas
 // ============================================================
 
 const EvaluateSchema = z.object({
   reasoning: z.string().describe('1–2 sentence rationale for continue vs done'),
+  lastStepUseful: z.boolean().describe('Did the most recent search/read add new, relevant information?'),
   decision: z.enum(['continue', 'done']),
+  action: z
+    .enum(['search', 'read'])
+    .describe('When continuing: "search" runs a new web query, "read" opens one of the listed sources in full'),
   query: z
     .string()
     .describe('Next web query to run: short, specific, human-readable (no quotes/keyword soup)'),
+  url: z
+    .string()
+    .describe('Source URL to read when action is "read", copied exactly from the sources above; empty otherwise'),
+});
+
+const FindingSchema = z.object({
+  claim: z.string().describe('One atomic, checkable fact (one sentence, no hedging filler)'),
+  evidence: z.string().describe('The snippet/figure from the results that supports it (short, near-verbatim)'),
+  sources: z.array(z.number()).describe('Numbers of the supporting sources from the Sources list'),
+  confidence: z.enum(['low', 'medium', 'high']),
 });
 
 const FinishSchema = z.object({
   answer: z
     .string()
-    .describe('Markdown summary. Prefer bullets/headings.'),
+    .describe('Markdown summary. Prefer bullets/headings. Cite sources inline as [n].'),
+  findings: z.array(FindingSchema).max(12).describe('The key facts established, one per item'),
   confidence: z.enum(['low', 'medium', 'high']),
 });
 
@@ -41,8 +64,11 @@ const FinishSchema = z.object({
 
 export interface EvaluateResult {
   reasoning: string;
+  lastStepUseful: boolean;
   decision: 'continue' | 'done';
+  action: 'search' | 'read';
   query: string;
+  url: string;
 }
 
 function buildMessages(history: ResearchQuestionEvent[]): Array<{ role: 'user' | 'assistant'; content: string }> {
@@ -53,6 +79,9 @@ function buildMessages(history: ResearchQuestionEvent[]): Array<{ role: 'user' |
         ? `\n\nSources:\n${e.sources.slice(0, 5).map(s => `- ${s.title || s.url} (${s.url})`).join('\n')}`
         : '';
       messages.push({ role: 'user', content: `Search for "${e.query}":\n${e.answer}${sourcesText}` });
+    } else if (e.type === 'read') {
+      const body = e.error ? `(Could not read this page: ${e.error})` : e.content;
+      messages.push({ role: 'user', content: `Read "${e.title}" (${e.url}):\n${body}` });
     } else {
       messages.push({ role: 'assistant', content: e.thought });
     }
@@ -60,26 +89,49 @@ function buildMessages(history: ResearchQuestionEvent[]): Array<{ role: 'user' |
   return messages;
 }
 
+// Answers of the questions this one depends on, as plain context (their [n] markers point
+// into other source lists, so they're dropped)
+function formatDependencies(dependencies: ResearchQuestionMemory[]): string | undefined {
+  if (dependencies.length === 0) return undefined;
+  return dependencies.map(d => {
+    const answer = dropUnknownMarkers(d.answer || 'No answer', 0);
+    return `### ${d.question}\n${answer.length > 1500 ? `${answer.substring(0, 1500)}…` : answer}`;
+  }).join('\n\n');
+}
+
+export interface ResearcherCallOptions extends CallOptions {
+  dependencies?: ResearchQuestionMemory[]; // finished questions whose answers this one builds on
+}
+
 export async function evaluate(
   question: string,
   objective: string,
   history: ResearchQuestionEvent[],
-  goal?: string
+  goal?: string,
+  options: ResearcherCallOptions = {}
 ): Promise<EvaluateResult> {
   const messages = buildMessages(history);
-  const systemPrompt = researchQuestionEvalPrompt({ objective, question, goal });
+  const systemPrompt = researchQuestionEvalPrompt({
+    objective,
+    question,
+    goal,
+    dependencyAnswers: formatDependencies(options.dependencies || []),
+    steeringNotes: options.steeringNotes?.(),
+  });
 
   const result = await generateText({
     model,
     // PROMPT GOAL (Researcher.evaluate): Given a single question + its search/reflection history,
-    // decide whether to keep searching and propose the next web query.
-    // Output = { decision: 'continue'|'done', query, reasoning }.
+    // decide whether to keep going and pick the next step: a web query or a source to read.
+    // Output = { decision: 'continue'|'done', action: 'search'|'read', query, url, reasoning }.
     system: systemPrompt,
     messages,
     output: Output.object({ schema: EvaluateSchema }),
+    abortSignal: options.abortSignal,
   });
 
   const data = result.output as z.infer<typeof EvaluateSchema>;
+  options.onUsage?.(toCallUsage('llm', 'gpt-5.2', result.usage));
 
   // Track for evaluation
   trackLlmCall({
@@ -92,8 +144,11 @@ export async function evaluate(
 
   return {
     reasoning: data.reasoning,
+    lastStepUseful: data.lastStepUseful,
     decision: data.decision,
+    action: data.action,
     query: data.query,
+    url: data.url,
   };
 }
 
@@ -102,7 +157,9 @@ export async function evaluate(
 // ============================================================
 
 export interface FinishResult {
-  answer: string;
+  answer: string; // cites sources as [n]
+  sources: Citation[];
+  findings: Finding[];
   confidence: 'low' | 'medium' | 'high';
 }
 
@@ -110,26 +167,37 @@ export async function finish(
   question: string,
   objective: string,
   history: ResearchQuestionEvent[],
-  goal?: string
+  goal?: string,
+  options: ResearcherCallOptions = {}
 ): Promise<FinishResult> {
   const messages = buildMessages(history);
+  const sources = collectSources(history);
+  const dependencyAnswers = formatDependencies(options.dependencies || []);
   const systemPrompt = `Role: Researcher.finish
 Objective: ${objective}
 Question: ${question}
 Goal: ${goal || '(not provided)'}
+${dependencyAnswers ? `\nEarlier research this question builds on (context only - don't cite it):\n${dependencyAnswers}\n` : ''}${steeringBlock(options.steeringNotes?.())}
+Sources:
+${sources.length > 0 ? formatSourceList(sources) : '(none)'}
 
-Task: summarize what was found + key gaps, using ONLY the provided search results.
+Task: summarize what was found + key gaps, using ONLY the provided search results and pages read.
 Be concrete (names/dates/numbers when present). Avoid generic filler.
-Return JSON: { answer: string, confidence: "low"|"medium"|"high" }`;
+Cite: put the number of the supporting source after each claim, e.g. "... in 2023 [2]". Only use numbers from the Sources list.
+Findings: also list the key facts one by one - claim, the evidence snippet behind it, its source numbers and your confidence.
+A fact with no source behind it is "low" confidence at best. Don't restate the question or list gaps as findings.
+Return JSON: { answer: string, findings: [{ claim, evidence, sources: number[], confidence }], confidence: "low"|"medium"|"high" }`;
 
   const result = await generateText({
     model,
     system: systemPrompt,
     messages,
     output: Output.object({ schema: FinishSchema }),
+    abortSignal: options.abortSignal,
   });
 
   const data = result.output as z.infer<typeof FinishSchema>;
+  options.onUsage?.(toCallUsage('llm', 'gpt-5.2', result.usage));
 
   // Track for evaluation
   trackLlmCall({
@@ -141,17 +209,38 @@ Return JSON: { answer: string, confidence: "low"|"medium"|"high" }`;
   }).catch(() => {}); // Fire and forget
 
   return {
-    answer: data.answer,
+    answer: dropUnknownMarkers(data.answer, sources.length),
+    sources,
+    findings: data.findings.map(f => ({
+      id: `f_${generateId()}`,
+      claim: f.claim,
+      evidence: f.evidence,
+      sources: [...new Set(f.sources)].filter(n => n >= 1 && n <= sources.length).map(n => sources[n - 1]),
+      confidence: f.confidence,
+    })),
     confidence: data.confidence,
   };
 }
 
 // ============================================================
-// Run Question - Orchestrates the evaluate/search/finish loop
+// Run Question - Orchestrates the evaluate/search/read/finish loop
 // ============================================================
 
-const MIN_SEARCHES = 3;
-const MAX_SEARCHES = 15;
+// URLs the researcher may read: sources of its own searches it hasn't read yet
+function readableUrls(history: ResearchQuestionEvent[]): Set<string> {
+  const urls = new Set<string>();
+  for (const e of history) {
+    if (e.type === 'search') e.sources?.forEach(s => urls.add(s.url));
+  }
+  for (const e of history) {
+    if (e.type === 'read') urls.delete(e.url);
+  }
+  return urls;
+}
+
+export interface RunQuestionOptions extends ResearcherCallOptions {
+  budget?: BudgetTracker; // run-wide budget - also sets the per-question search range
+}
 
 export interface RunQuestionResult {
   question: ResearchQuestionMemory;
@@ -161,62 +250,168 @@ export interface RunQuestionResult {
 export async function runQuestion(
   question: ResearchQuestionMemory,
   objective: string,
-  onProgress?: (update: any) => void
+  onProgress?: (update: any) => void,
+  options: RunQuestionOptions = {}
 ): Promise<RunQuestionResult> {
   const log = (msg: string) => console.log(`[Researcher ${question.id.substring(0, 8)}] ${msg}`);
+  const { budget } = options;
+  const minSearches = budget?.limits.minSearchesPerQuestion ?? DEFAULT_BUDGET.minSearchesPerQuestion;
+  const maxSearches = budget?.limits.maxSearchesPerQuestion ?? DEFAULT_BUDGET.maxSearchesPerQuestion;
 
   const q: ResearchQuestionMemory = { ...question, status: 'running', history: [...question.history] };
-  let searchCount = 0;
-  let nextQuery = q.question; // Start with the question itself
-
-  log(`Starting: ${q.question.substring(0, 50)}`);
-  onProgress?.({ type: 'question_started', questionId: q.id, questionText: q.question });
-
-  while (searchCount < MAX_SEARCHES) {
-    // Search
-    const searchResult = await searchWeb(nextQuery);
-    searchCount++;
 
-    const searchEvent: ResearchQuestionEvent = {
-      type: 'search',
-      query: nextQuery,
-      answer: searchResult.answer,
-      sources: searchResult.sources
-    };
-    q.history.push(searchEvent);
+  // Resume from checkpointed history: count past searches/reads and pick up where the last step left off
+  let searchCount = q.history.filter(e => e.type === 'search').length;
+  let readCount = q.history.filter(e => e.type === 'read').length;
+  let nextAction: 'search' | 'read' = 'search';
+  let nextQuery = q.question; // Start with the question itself
+  let nextUrl = '';
+  let lastSearchRecordId: string | undefined; // search_queries row the next evaluate rates
+  let done = false;
+  const last = q.history[q.history.length - 1];
+  let needsEvaluate = last?.type === 'search' || last?.type === 'read'; // crashed between step and evaluate
+  if (last?.type === 'reflect') {
+    if (last.decision === 'done') done = true;
+    else if (last.nextAction === 'read' && last.nextUrl) {
+      nextAction = 'read';
+      nextUrl = last.nextUrl;
+    } else nextQuery = last.nextQuery || `more about ${q.question}`;
+  }
 
-    log(`Search ${searchCount}: "${nextQuery.substring(0, 40)}..." → ${searchResult.answer.length} chars`);
-    onProgress?.({ type: 'question_search', questionId: q.id, query: nextQuery, answerLength: searchResult.answer.length, question: q });
+  if (q.history.length > 0) {
+    log(`Resuming after ${searchCount} searches`);
+  } else {
+    log(`Starting: ${q.question.substring(0, 50)}`);
+  }
+  onProgress?.({ type: 'question_started', questionId: q.id, questionText: q.question, resumed: q.history.length > 0 });
+
+  while (!done && (needsEvaluate || searchCount < maxSearches)) {
+    throwIfStopped(options.abortSignal);
+
+    if (!needsEvaluate) {
+      // Run out of budget: stop searching and summarize what we have
+      const exhausted = budget?.exhausted();
+      if (exhausted) {
+        log(`Budget exhausted (${exhausted}) after ${searchCount} searches`);
+        onProgress?.({ type: 'question_budget_exhausted', questionId: q.id, limit: exhausted });
+        break;
+      }
+
+      if (nextAction === 'read') {
+        // Read one source in full - the page text goes into the history like a search answer
+        onProgress?.({ type: 'extract_started', questionId: q.id, urls: [nextUrl], purpose: q.question });
+
+        let readEvent: Extract<ResearchQuestionEvent, { type: 'read' }>;
+        try {
+          const page = await fetchPage(nextUrl, options);
+          readEvent = { type: 'read', url: nextUrl, title: page.title, content: page.content }; // source URL, as cited by the search
+        } catch (error: unknown) {
+          if (options.abortSignal?.aborted) throw error;
+          const message = error instanceof Error ? error.message : String(error);
+          readEvent = { type: 'read', url: nextUrl, title: nextUrl, content: '', error: message };
+        }
+        readCount++;
+        q.history.push(readEvent);
+
+        log(`Read ${readCount}: ${nextUrl.substring(0, 60)} → ${readEvent.error ? `failed (${readEvent.error})` : `${readEvent.content.length} chars`}`);
+        onProgress?.({
+          type: 'extract_completed',
+          questionId: q.id,
+          purpose: q.question,
+          results: readEvent.error ? [] : [{ url: readEvent.url, title: readEvent.title, content: readEvent.content }],
+          failed: readEvent.error ? [{ url: readEvent.url, error: readEvent.error }] : [],
+          question: q,
+        });
+      } else {
+        // Search - recorded in search_queries with why it was made
+        const lastReflect = q.history.findLast(e => e.type === 'reflect');
+        const searchResult = await searchWeb(nextQuery, options, {
+          questionId: q.id,
+          purpose: lastReflect?.type === 'reflect' ? lastReflect.thought : q.goal || q.question,
+          cycleNumber: searchCount + 1,
+        });
+        searchCount++;
+        lastSearchRecordId = searchResult.recordId;
+
+        const searchEvent: ResearchQuestionEvent = {
+          type: 'search',
+          query: nextQuery,
+          answer: searchResult.answer,
+          sources: searchResult.sources
+        };
+        q.history.push(searchEvent);
+
+        log(`Search ${searchCount}: "${nextQuery.substring(0, 40)}..." → ${searchResult.answer.length} chars${searchResult.cached ? ' (cached)' : ''}`);
+        onProgress?.({
+          type: 'question_search',
+          questionId: q.id,
+          query: nextQuery,
+          answerLength: searchResult.answer.length,
+          cached: searchResult.cached === true,
+          searchCache: options.searchCache?.stats(), // run-wide hits/misses so far
+          question: q,
+        });
+      }
+    }
+    needsEvaluate = false;
 
     // Evaluate
-    const evalResult = await evaluate(q.question, objective, q.history, q.goal);
+    throwIfStopped(options.abortSignal);
+    const evalResult = await evaluate(q.question, objective, q.history, q.goal, options);
+    if (lastSearchRecordId) {
+      await options.searchCache?.markUseful(lastSearchRecordId, evalResult.lastStepUseful);
+    }
+    lastSearchRecordId = undefined;
 
     // Prevent early done
     let decision = evalResult.decision;
-    if (decision === 'done' && searchCount < MIN_SEARCHES) {
+    if (decision === 'done' && searchCount < minSearches) {
       decision = 'continue';
     }
 
-    const reflectEvent: ResearchQuestionEvent = { type: 'reflect', thought: evalResult.reasoning };
+    // Only read sources this question's searches surfaced, a bounded number of times
+    nextUrl = evalResult.url.trim();
+    nextAction = evalResult.action === 'read' && readCount < MAX_READS_PER_QUESTION && readableUrls(q.history).has(nextUrl)
+      ? 'read'
+      : 'search';
+    nextQuery = evalResult.query || `more about ${q.question}`;
+
+    // decision + next step are recorded so a resumed run continues from this step
+    const continuing = decision === 'continue';
+    const reflectEvent: ResearchQuestionEvent = {
+      type: 'reflect',
+      thought: evalResult.reasoning,
+      decision,
+      nextAction: continuing ? nextAction : undefined,
+      nextQuery: continuing && nextAction === 'search' ? nextQuery : undefined,
+      nextUrl: continuing && nextAction === 'read' ? nextUrl : undefined,
+    };
     q.history.push(reflectEvent);
 
-    onProgress?.({ type: 'question_evaluate', questionId: q.id, reasoning: evalResult.reasoning, decision, question: q });
+    onProgress?.({ type: 'question_evaluate', questionId: q.id, reasoning: evalResult.reasoning, decision, action: continuing ? nextAction : undefined, question: q });
 
-    if (decision === 'done') {
-      break;
-    }
+    done = decision === 'done';
+  }
 
-    nextQuery = evalResult.query || `more about ${q.question}`;
+  // Finish (nothing to summarize if the budget ran out before the first search)
+  throwIfStopped(options.abortSignal);
+  if (q.history.length === 0) {
+    q.answer = 'Not researched: the run ran out of budget before this question started.';
+    q.confidence = 'low';
+    q.status = 'done';
+    onProgress?.({ type: 'question_done', questionId: q.id, answerLength: q.answer.length });
+    return { question: q, searchCount };
   }
 
-  // Finish
-  const finishResult = await finish(q.question, objective, q.history, q.goal);
+  const finishResult = await finish(q.question, objective, q.history, q.goal, options);
   q.answer = finishResult.answer;
+  q.sources = finishResult.sources;
+  q.findings = finishResult.findings;
   q.confidence = finishResult.confidence;
   q.status = 'done';
 
-  log(`Done: ${searchCount} searches, ${q.answer.length} char answer`);
-  onProgress?.({ type: 'question_done', questionId: q.id, answerLength: q.answer.length });
+  log(`Done: ${searchCount} searches, ${readCount} reads, ${q.findings.length} findings, ${q.answer.length} char answer`);
+  onProgress?.({ type: 'question_done', questionId: q.id, answerLength: q.answer.length, findingsCount: q.findings.length });
 
   return { question: q, searchCount };
 }
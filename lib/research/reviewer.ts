@@ -0,0 +1,121 @@
+/**
+ * Reviewer - Critic pass over Brain.finish's draft
+ *
+ *   review(draft) → pass, or revise with what's missing / unsupported
+ *
+ * Runs once per research run, between the research loop and the final Brain.finish.
+ * A "revise" verdict can come with up to 2 follow-up questions (one extra, bounded round);
+ * either way its notes go back to Brain.finish for the rewrite.
+ */
+
+import { generateText, Output } from 'ai';
+import { openai } from '@ai-sdk/openai';
+import { z } from 'zod';
+import type { ResearchQuestionMemory, CallOptions } from './types';
+import { createQuestion } from './types';
+import { toCallUsage } from './budget';
+import { formatQuestionFindings } from './brain';
+import { reviewerPrompt } from '@/lib/prompts/research';
+import { trackLlmCall } from '@/lib/eval';
+
+const model = openai('gpt-5.2');
+
+// ============================================================
+// Schemas
+// ============================================================
+
+const QuestionSchema = z.object({
+  question: z.string().describe('One focused follow-up question that closes a gap in the draft'),
+  description: z.string().describe('One sentence: what we learn + which gap it closes'),
+  goal: z.string().describe('Concrete success condition for this question'),
+});
+
+const ReviewSchema = z.object({
+  verdict: z.enum(['pass', 'revise']),
+  critique: z.string(),
+  missing: z.array(z.string()),
+  unsupportedClaims: z.array(z.string()),
+  questions: z.array(QuestionSchema).max(2),
+});
+
+// ============================================================
+// Review
+// ============================================================
+
+export interface ReviewResult {
+  verdict: 'pass' | 'revise';
+  critique: string;
+  missing: string[]; // success criteria the draft doesn't (fully) answer
+  unsupportedClaims: string[]; // claims the findings don't back
+  questions?: ResearchQuestionMemory[]; // follow-up round (only when canFollowUp)
+}
+
+export interface ReviewOptions extends CallOptions {
+  canFollowUp?: boolean; // false = notes only, no follow-up questions
+  remainingBudget?: string; // describeRemainingBudget() - lets the reviewer size the follow-up
+}
+
+export async function review(
+  objective: string,
+  draft: string, // with its "## Sources" bibliography
+  completedQuestions: ResearchQuestionMemory[],
+  successCriteria?: string[],
+  options: ReviewOptions = {}
+): Promise<ReviewResult> {
+  const canFollowUp = options.canFollowUp ?? true;
+  const prompt = reviewerPrompt({
+    objective,
+    successCriteria,
+    draft,
+    questionsContext: completedQuestions.length > 0
+      ? completedQuestions.map(q => formatQuestionFindings(q)).join('\n\n')
+      : '(No research completed)',
+    canFollowUp,
+    remainingBudget: options.remainingBudget,
+    steeringNotes: options.steeringNotes?.(),
+  });
+
+  const result = await generateText({
+    model,
+    // PROMPT GOAL (Reviewer): Check the draft against the success criteria and the findings.
+    // Output = { verdict, critique, missing[], unsupportedClaims[], questions[] }. It never rewrites the draft.
+    prompt,
+    output: Output.object({ schema: ReviewSchema }),
+    abortSignal: options.abortSignal,
+  });
+
+  const data = result.output as z.infer<typeof ReviewSchema>;
+  options.onUsage?.(toCallUsage('llm', 'gpt-5.2', result.usage));
+
+  // Track for evaluation
+  trackLlmCall({
+    agentId: 'rQ7vW2kLx9Tn', // Reviewer (registered by drizzle/0010_register_reviewer_agent.sql)
+    model: 'gpt-5.2',
+    systemPrompt: prompt,
+    input: { objective, successCriteria, completedQuestionsCount: completedQuestions.length, canFollowUp },
+    output: data,
+  }).catch(() => {}); // Fire and forget
+
+  const questions = canFollowUp && data.verdict === 'revise' ? data.questions : [];
+  return {
+    verdict: data.verdict,
+    critique: data.critique,
+    missing: data.missing,
+    unsupportedClaims: data.unsupportedClaims,
+    questions: questions.length > 0
+      ? questions.map(q => createQuestion(q.question, q.description, q.goal, 0)) // round set by run.ts
+      : undefined,
+  };
+}
+
+/**
+ * The review as notes for Brain.finish's rewrite
+ */
+export function formatReviewNotes(result: Pick<ReviewResult, 'critique' | 'missing' | 'unsupportedClaims'>): string {
+  const lines = [`  Critique: ${result.critique}`];
+  if (result.missing.length > 0) lines.push(`  Missing:\n${result.missing.map(m => `  - ${m}`).join('\n')}`);
+  if (result.unsupportedClaims.length > 0) {
+    lines.push(`  Unsupported claims:\n${result.unsupportedClaims.map(c => `  - ${c}`).join('\n')}`);
+  }
+  return lines.join('\n');
+}
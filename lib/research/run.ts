@@ -1,23 +1,39 @@
 /**
  * Research Run - Main orchestration loop
+ *
+ * The full ResearchState is checkpointed to chat_sessions.current_research after every
+ * step, so a run whose process died can be resumed (config.resume) without redoing
+ * finished questions or repeating searches.
  */
 
 import { db } from '@/lib/db';
 import { chatSessions } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
 import type { ResearchBrief } from '@/lib/agents/intake-agent';
-import type { ResearchState, BrainMemory, ResearchQuestionMemory, ResearchQuestionEvent } from './types';
-import { createBrainMemory } from './types';
+import type { BrainEvent, SteeringNote, PlanQuestion, ResearchState, ResearchQuestionMemory, ResearchCheckpoint, CallOptions, CallUsage, RunMetrics, Citation } from './types';
+import { createBrainMemory, createCriteria, createQuestion } from './types';
 import { evaluate as brainEvaluate, finish as brainFinish } from './brain';
+import type { EvaluateResult } from './brain';
 import { runQuestion } from './researcher';
+import { review, formatReviewNotes } from './reviewer';
+import { ResearchStoppedError, isStopError, throwIfStopped } from './cancel';
+import { createBudgetTracker, describeRemainingBudget } from './budget';
+import type { BudgetLimit } from './budget';
+import { createSearchCache } from './search';
+import { formatWithBibliography, mergeSources } from './citations';
+import { parseSteeringNotes } from '@/lib/sessions/steering';
+import { openPlanApproval, waitForApprovedPlan, clearPlanApproval } from '@/lib/sessions/plan-approval';
 
 // ============================================================
 // Config
 // ============================================================
 
+// Credits/searches/tokens/wall time are limited per run by the brief's ResearchBudget (budget.ts)
 const CONFIG = {
   maxRounds: 10,
-  maxTimeMs: 15 * 60 * 1000, // 15 minutes
+  stopPollMs: 2000, // how often we check chat_sessions.status for a stop from another process
+  maxParallelQuestions: 3, // questions within a round run concurrently up to this limit
+  planApprovalTimeoutMs: 15 * 60 * 1000, // approval mode: stop holding a worker slot after this long
 };
 
 // ============================================================
@@ -28,13 +44,103 @@ export interface RunConfig {
   chatSessionId: string;
   researchBrief: ResearchBrief;
   onProgress?: (update: any) => void;
+  onUsage?: (usage: CallUsage) => void; // every model call's usage (metering)
+  signal?: AbortSignal; // aborted by POST /api/sessions/[id]/stop
+  maxParallelQuestions?: number; // defaults to CONFIG.maxParallelQuestions
+  runId?: string; // research job id - stored on the checkpoint
+  researchSessionId?: string; // research_sessions row - searches are recorded under it (search_queries)
+  resume?: boolean; // continue from this run's checkpoint instead of starting over
 }
 
 export interface RunResult {
   completed: boolean;
   totalQuestions: number;
   output: {
-    finalAnswer: string;
+    finalAnswer: string; // with its "## Sources" bibliography
+    sources?: Citation[]; // that bibliography - [n] in finalAnswer is sources[n - 1]
+  };
+  metrics?: RunMetrics; // set by runResearch (stopped runs carry them on ResearchStoppedError)
+}
+
+// ============================================================
+// Concurrency helper
+// ============================================================
+
+/**
+ * Run worker over items with at most `limit` in flight, starting an item only once
+ * isReady(item) says its dependencies are done (checked again after every item finishes).
+ * Items that never become ready are left unstarted.
+ * On the first failure no new items are started; in-flight ones settle, then the error is rethrown.
+ */
+async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>,
+  isReady: (item: T) => boolean = () => true
+): Promise<void> {
+  const waiting = [...items];
+  const inFlight = new Set<Promise<void>>();
+  let failed = false;
+  let failure: unknown;
+
+  while (!failed) {
+    while (inFlight.size < Math.max(1, limit)) {
+      const index = waiting.findIndex(isReady);
+      if (index === -1) break;
+      const [item] = waiting.splice(index, 1);
+      const run: Promise<void> = worker(item)
+        .catch(error => {
+          if (!failed) failure = error;
+          failed = true;
+        })
+        .finally(() => inFlight.delete(run));
+      inFlight.add(run);
+    }
+    if (inFlight.size === 0) break; // nothing running and nothing ready
+    await Promise.race(inFlight);
+  }
+
+  await Promise.all(inFlight);
+  if (failed) throw failure;
+}
+
+// ============================================================
+// Metrics
+// ============================================================
+
+const CONFIDENCE_LEVELS = ['low', 'medium', 'high'] as const;
+
+function runMetrics(state: ResearchState, spent: RunMetrics['spent']): RunMetrics {
+  const questions = Object.values(state.questions);
+  const totalSteps = questions.reduce(
+    (sum, q) => sum + q.history.filter(e => e.type === 'search' || e.type === 'read').length,
+    0
+  );
+
+  // Lower median, so one confident question doesn't carry a shaky run
+  const ranks = questions
+    .flatMap(q => (q.confidence ? [CONFIDENCE_LEVELS.indexOf(q.confidence)] : []))
+    .sort((a, b) => a - b);
+  const confidence = ranks.length > 0 ? CONFIDENCE_LEVELS[ranks[Math.floor((ranks.length - 1) / 2)]] : null;
+
+  return { totalSteps, confidence, spent };
+}
+
+// ============================================================
+// Brain actions
+// ============================================================
+
+/**
+ * Fold a duplicate question into the one it duplicates: both answers (renumbered onto one
+ * source list) and both sets of findings end up on `into`
+ */
+function mergeQuestions(into: ResearchQuestionMemory, duplicate: ResearchQuestionMemory): ResearchQuestionMemory {
+  const merged = mergeSources([into, duplicate]);
+  return {
+    ...into,
+    answer: [merged.answers.get(into.id), merged.answers.get(duplicate.id)].filter(Boolean).join('\n\n'),
+    sources: merged.sources,
+    findings: [...(into.findings || []), ...(duplicate.findings || [])],
   };
 }
 
@@ -51,6 +157,8 @@ function toFrontendFormat(state: ResearchState, round: number): any {
       if (event.type === 'search') {
         memory.push({ type: 'search', query: event.query });
         memory.push({ type: 'result', answer: event.answer, sources: event.sources || [] });
+      } else if (event.type === 'read') {
+        memory.push({ type: 'read', url: event.url, title: event.title, answer: event.content.substring(0, 2000), error: event.error });
       } else if (event.type === 'reflect') {
         memory.push({ type: 'reflect', thought: event.thought });
       }
@@ -64,16 +172,28 @@ function toFrontendFormat(state: ResearchState, round: number): any {
       description: q.description,
       goal: q.goal,
       status: q.status,
+      parentId: q.parentId || null,
+      dependsOn: q.dependsOn || [],
+      hypothesisId: q.hypothesisId || null,
+      mergedInto: q.mergedInto || null,
       cycles: memory.filter(m => m.type === 'search').length,
       maxCycles: 30,
       memory,
-      confidence: q.status === 'done' ? 'medium' : null,
+      confidence: q.confidence || null,
+      findings: (q.findings || []).map(f => ({
+        id: f.id,
+        content: f.claim,
+        evidence: f.evidence,
+        sources: f.sources,
+        confidence: f.confidence,
+        status: 'active' as const,
+      })),
       recommendation: null,
       summary: q.answer?.substring(0, 200),
       document: q.answer ? {
         answer: q.answer,
-        keyFindings: [],
-        sources: [],
+        keyFindings: (q.findings || []).map(f => f.claim),
+        sources: (q.sources || []).map(s => ({ url: s.url, title: s.title, contribution: '' })), // [n] = sources[n - 1]
         limitations: ''
       } : undefined
     };
@@ -89,6 +209,37 @@ function toFrontendFormat(state: ResearchState, round: number): any {
         reasoning: event.reasoning
       };
     }
+    if (event.type === 'drill_down') {
+      return {
+        id: `dec_${idx}`,
+        timestamp: new Date().toISOString(),
+        action: 'drill_down',
+        questionId: event.questionId,
+        parentId: event.parentId,
+        round: event.round,
+        reasoning: '',
+      };
+    }
+    if (event.type === 'kill' || event.type === 'merge') {
+      return {
+        id: `dec_${idx}`,
+        timestamp: new Date().toISOString(),
+        action: event.type,
+        questionId: event.questionId,
+        intoId: event.type === 'merge' ? event.intoId : undefined,
+        round: event.round,
+        reasoning: event.reason,
+      };
+    }
+    if (event.type === 'plan_approved') {
+      return {
+        id: `dec_${idx}`,
+        timestamp: new Date().toISOString(),
+        action: 'plan_approved',
+        round: event.round,
+        reasoning: `Plan approved: ${event.editedIds.length} edited, ${event.removedIds.length} removed, ${event.addedIds.length} added`,
+      };
+    }
     return null;
   }).filter(Boolean);
 
@@ -96,136 +247,631 @@ function toFrontendFormat(state: ResearchState, round: number): any {
     version: 1,
     objective: state.brain.objective,
     successCriteria: state.brain.successCriteria || [],
+    criteria: (state.brain.criteria || []).map(c => ({
+      id: c.id,
+      text: c.text,
+      status: c.status,
+      questionIds: c.questionIds,
+      evidence: c.evidence || null,
+    })),
+    hypotheses: state.brain.hypotheses || [],
     researchReason: state.brain.reason,
     researchRound: round,
     questions,
     brainLog,
-    status: state.brain.finalAnswer ? 'complete' : 'running',
+    status: state.brain.finalAnswer ? 'complete'
+      : state.brain.stopped ? 'stopped'
+      : state.brain.awaitingApproval !== undefined ? 'awaiting_approval'
+      : 'running',
     finalAnswer: state.brain.finalAnswer
   };
 }
 
+// ============================================================
+// Checkpoint
+// ============================================================
+
+async function loadCheckpoint(chatSessionId: string, runId?: string): Promise<ResearchCheckpoint | null> {
+  const [row] = await db
+    .select({ checkpoint: chatSessions.currentResearch })
+    .from(chatSessions)
+    .where(eq(chatSessions.id, chatSessionId));
+
+  const checkpoint = row?.checkpoint as ResearchCheckpoint | null | undefined;
+  if (!checkpoint || checkpoint.version !== 1 || !checkpoint.state) return null;
+  if (runId && checkpoint.runId !== runId) return null; // left over from an earlier run
+  return checkpoint;
+}
+
 // ============================================================
 // Main Loop
 // ============================================================
 
 export async function runResearch(config: RunConfig): Promise<RunResult> {
   const { chatSessionId, researchBrief, onProgress } = config;
-  const startTime = Date.now();
+  const maxParallel = config.maxParallelQuestions ?? CONFIG.maxParallelQuestions;
   let round = 0;
 
   const log = (msg: string, data?: any) => {
     console.log(`[Research] ${msg}`, data ? JSON.stringify(data).substring(0, 200) : '');
   };
 
+  const checkpoint = config.resume ? await loadCheckpoint(chatSessionId, config.runId) : null;
+
+  // Stop signal: aborted by the caller (same process) or by the DB poll below
+  // (stop route flips chat_sessions.status away from 'researching'). The same poll picks up
+  // steering notes (steer route → chat_sessions.steering_notes).
+  const controller = new AbortController();
+  const signal = controller.signal;
+  const abortFromCaller = () => controller.abort();
+  config.signal?.addEventListener('abort', abortFromCaller);
+  if (config.signal?.aborted) controller.abort();
+
+  const stopPoll = setInterval(async () => {
+    try {
+      const [row] = await db
+        .select({ status: chatSessions.status, steeringNotes: chatSessions.steeringNotes })
+        .from(chatSessions)
+        .where(eq(chatSessions.id, chatSessionId));
+      if (row && row.status !== 'researching') {
+        log('Stop requested (session status changed)', { status: row.status });
+        controller.abort();
+      } else if (row) {
+        receiveSteeringNotes(parseSteeringNotes(row.steeringNotes));
+      }
+    } catch {
+      // Transient DB error - try again next tick
+    }
+  }, CONFIG.stopPollMs);
+
   // Helpers
-  const save = async (state: ResearchState) => {
+  const writeState = async (state: ResearchState) => {
     const frontendDoc = toFrontendFormat(state, round);
     const serialized = JSON.stringify(frontendDoc);
+    const checkpoint: ResearchCheckpoint = {
+      version: 1,
+      runId: config.runId,
+      round,
+      elapsedMs: budget.elapsedMs(),
+      spent: budget.spent(),
+      state,
+    };
     await db.update(chatSessions)
-      .set({ brain: serialized, updatedAt: new Date() })
+      .set({ brain: serialized, currentResearch: checkpoint, updatedAt: new Date() })
       .where(eq(chatSessions.id, chatSessionId));
     onProgress?.({ type: 'brain_update', brain: serialized });
   };
 
-  const shouldStop = () => Date.now() - startTime > CONFIG.maxTimeMs;
+  // Saves are serialized: parallel researchers report progress concurrently, and an
+  // older snapshot must never land after a newer one. Each write serializes the state
+  // as it is when the write starts, so the last queued write always has the latest.
+  let saveQueue: Promise<void> = Promise.resolve();
+  const save = (state: ResearchState): Promise<void> => {
+    const write = saveQueue.then(() => writeState(state));
+    saveQueue = write.catch(() => {}); // keep the queue alive after a failed write
+    return write;
+  };
 
-  // Initialize state
-  log('Initializing research', { objective: researchBrief.objective });
-  const brain: BrainMemory = createBrainMemory(researchBrief.objective, researchBrief.successCriteria);
-  const questions: Record<string, ResearchQuestionMemory> = {};
-  const state: ResearchState = { brain, questions };
+  // Budget - a resumed run continues with what the checkpoint already spent
+  const budget = createBudgetTracker(researchBrief.budget, {
+    spent: checkpoint?.spent,
+    elapsedMs: checkpoint?.elapsedMs,
+  });
+  let budgetLimit: BudgetLimit | null = null;
+  const shouldStop = () => {
+    if (budgetLimit) return true;
+    budgetLimit = budget.exhausted();
+    if (budgetLimit) {
+      log('Budget exhausted', { limit: budgetLimit, spent: budget.spent() });
+      onProgress?.({ type: 'budget_exhausted', limit: budgetLimit, spent: budget.spent(), limits: budget.limits });
+    }
+    return budgetLimit !== null;
+  };
+  const searchCache = createSearchCache({ researchSessionId: config.researchSessionId });
+  const callOptions: CallOptions = {
+    abortSignal: signal,
+    searchProvider: researchBrief.searchProvider,
+    searchCache,
+    onUsage: (usage) => {
+      budget.record(usage);
+      config.onUsage?.(usage);
+    },
+  };
 
-  await save(state);
-  onProgress?.({ type: 'research_initialized', objective: brain.objective });
+  // Initialize state (or restore it from this run's checkpoint)
+  let state: ResearchState;
+  if (checkpoint) {
+    state = checkpoint.state;
+    round = checkpoint.round;
+    delete state.brain.stopped;
+    state.brain.criteria ??= createCriteria(state.brain.successCriteria);
+    log('Resuming research', { round, questions: Object.keys(state.questions).length });
+  } else {
+    log('Initializing research', { objective: researchBrief.objective });
+    state = {
+      brain: createBrainMemory(researchBrief.objective, researchBrief.successCriteria),
+      questions: {},
+    };
+  }
+  const { brain, questions } = state;
+  const unfinished = () => Object.values(questions).filter(q => q.status === 'pending' || q.status === 'running');
+  const brainSaidDone = () => {
+    const last = brain.history.findLast(e => e.type === 'evaluate');
+    return last?.type === 'evaluate' && last.decision === 'done';
+  };
+  // Steering: new notes are kept on the brain (checkpointed) and read by every prompt from now on
+  callOptions.steeringNotes = () => (brain.steering || []).map(n => n.text);
+  const receiveSteeringNotes = (notes: SteeringNote[]) => {
+    const known = new Set((brain.steering || []).map(n => n.id));
+    const fresh = notes.filter(n => !known.has(n.id));
+    if (fresh.length === 0) return;
+    brain.steering = [...(brain.steering || []), ...fresh];
+    for (const note of fresh) {
+      log('Steering note received', { note: note.text });
+      onProgress?.({ type: 'steering_received', noteId: note.id, note: note.text });
+    }
+    save(state).catch(() => {}); // next step's save retries
+  };
+  // Approval mode: the round's proposed questions wait until the user approves them (plan-approval.ts).
+  // Their edits are applied as is - removed questions are killed, new ones join the round.
+  const waitForPlanApproval = async () => {
+    const proposed = Object.values(questions).filter(q => q.round === round && q.status === 'pending');
+    await openPlanApproval(chatSessionId, round);
+    await save(state);
+    log('Waiting for plan approval', { round, questions: proposed.length });
+    onProgress?.({
+      type: 'plan_proposed',
+      round,
+      questions: proposed.map(q => ({ id: q.id, question: q.question, description: q.description, goal: q.goal })),
+    });
 
-  // Main loop - brain evaluates, researchers execute, repeat
-  while (round < CONFIG.maxRounds && !shouldStop()) {
-    round++;
+    // Time spent waiting on the user doesn't count against the time budget. A timeout ends
+    // the run with the checkpoint above kept; the job resumes here once the plan is approved.
+    const resumeClock = budget.pause();
+    let plan: PlanQuestion[];
+    try {
+      plan = await waitForApprovedPlan(chatSessionId, round, {
+        signal,
+        pollMs: CONFIG.stopPollMs,
+        timeoutMs: CONFIG.planApprovalTimeoutMs,
+      });
+    } finally {
+      resumeClock();
+    }
 
-    // Brain evaluates - decides continue or done
-    const completed = Object.values(questions).filter(q => q.status === 'done');
-    log('Brain evaluating...', { completedQuestions: completed.length });
-    const evalResult = await brainEvaluate(brain.objective, completed, brain.successCriteria);
-    log('Brain decided', { decision: evalResult.decision, newQuestions: evalResult.questions?.length || 0 });
+    const approved = new Map(plan.filter(p => p.id).map(p => [p.id!, p]));
+    const editedIds: string[] = [];
+    const removedIds: string[] = [];
+    const addedIds: string[] = [];
+    for (const q of proposed) {
+      const edit = approved.get(q.id);
+      if (!edit) {
+        questions[q.id] = { ...q, status: 'killed' };
+        brain.history.push({ type: 'kill', questionId: q.id, reason: 'Removed from the plan by the user', round });
+        removedIds.push(q.id);
+        continue;
+      }
+      const edited = {
+        question: edit.question,
+        description: edit.description || q.description,
+        goal: edit.goal || q.goal,
+      };
+      if (edited.question !== q.question || edited.description !== q.description || edited.goal !== q.goal) {
+        questions[q.id] = { ...q, ...edited };
+        editedIds.push(q.id);
+      }
+    }
+    for (const p of plan) {
+      if (p.id && proposed.some(q => q.id === p.id)) continue;
+      const q = createQuestion(p.question, p.description, p.goal || `A sourced answer to: ${p.question}`, round);
+      questions[q.id] = q;
+      addedIds.push(q.id);
+    }
 
-    // Update reason (always, if non-empty)
-    if (evalResult.reason && evalResult.reason.trim()) {
-      brain.reason = evalResult.reason;
+    delete brain.awaitingApproval;
+    brain.history.push({ type: 'plan_approved', round, editedIds, removedIds, addedIds });
+    log('Plan approved', { round, edited: editedIds.length, removed: removedIds.length, added: addedIds.length });
+    onProgress?.({ type: 'plan_approved', round, edited: editedIds.length, removed: removedIds.length, added: addedIds.length });
+    await clearPlanApproval(chatSessionId);
+    await save(state);
+  };
+  const lastReview = () => brain.history.findLast((e): e is Extract<BrainEvent, { type: 'review' }> => e.type === 'review');
+
+  // A question waits for its dependencies; killed or unknown ones don't block it
+  const dependenciesOf = (q: ResearchQuestionMemory) =>
+    (q.dependsOn || []).map(id => questions[id]).filter((d): d is ResearchQuestionMemory => Boolean(d));
+  const isReady = (q: ResearchQuestionMemory) =>
+    dependenciesOf(q).every(d => d.status === 'done' || d.status === 'killed');
+
+  // Researchers in flight, each with its own abort - killing a running question cancels it
+  const inFlight = new Map<string, AbortController>();
+  const isKilled = (id: string) => questions[id]?.status === 'killed';
+
+  // Apply Brain.evaluate's kill/merge (full evaluate or mid-round check)
+  const applyPruning = (evalResult: EvaluateResult) => {
+    // Kill: an unfinished question won't run (or is cancelled), a done one is left out of what the brain sees
+    for (const { questionId, reason } of evalResult.kill || []) {
+      const q = questions[questionId];
+      if (!q || q.status === 'killed') continue;
+      questions[questionId] = { ...q, status: 'killed' };
+      inFlight.get(questionId)?.abort();
+      brain.history.push({ type: 'kill', questionId, reason, round });
+      onProgress?.({ type: 'brain_action', action: 'kill', questionId, question: q.question, reason });
     }
 
-    brain.history.push({
-      type: 'evaluate',
-      reasoning: evalResult.reasoning,
-      decision: evalResult.decision,
-      spawnedIds: evalResult.questions?.map(q => q.id),
-    });
+    // Merge: the duplicate's answer + findings move onto the question it duplicates
+    for (const { questionId, intoId, reason } of evalResult.merge || []) {
+      const q = questions[questionId];
+      const into = questions[intoId];
+      if (q?.status !== 'done' || into?.status !== 'done') continue;
+      questions[intoId] = mergeQuestions(into, q);
+      questions[questionId] = { ...q, status: 'killed', mergedInto: intoId };
+      brain.history.push({ type: 'merge', questionId, intoId, reason, round });
+      onProgress?.({ type: 'brain_action', action: 'merge', questionId, intoId, question: q.question, reason });
+    }
 
-    onProgress?.({ type: 'brain_evaluate', reasoning: evalResult.reasoning, reason: evalResult.reason, decision: evalResult.decision });
+    if (evalResult.criteria) {
+      brain.criteria = evalResult.criteria;
+    }
+    brain.hypotheses = evalResult.hypotheses;
+  };
 
-    // If brain says done, we're ready to finish
-    if (evalResult.decision === 'done') {
+  // Mid-round check: whenever a question finishes while others are still open, the brain may
+  // prune them with the new findings. One check at a time; completions meanwhile queue one more.
+  let roundCheck: Promise<void> | null = null;
+  let recheck = false;
+  const checkRound = async () => {
+    do {
+      recheck = false;
+      const open = unfinished();
+      if (open.length === 0 || shouldStop()) return;
+
+      const completed = Object.values(questions).filter(q => q.status === 'done');
+      log('Brain checking round...', { completedQuestions: completed.length, openQuestions: open.length });
+      const evalResult = await brainEvaluate(brain.objective, completed, brain.successCriteria, {
+        ...callOptions,
+        remainingBudget: describeRemainingBudget(budget),
+        criteria: brain.criteria,
+        openQuestions: open,
+        hypotheses: brain.hypotheses,
+        midRound: true,
+      });
+      applyPruning(evalResult);
       await save(state);
-      break;
+    } while (recheck);
+  };
+  const requestRoundCheck = () => {
+    if (roundCheck) {
+      recheck = true;
+      return;
     }
+    roundCheck = checkRound()
+      .catch(error => {
+        if (!isStopError(error)) log('Round check failed', { error: error instanceof Error ? error.message : String(error) });
+      })
+      .finally(() => { roundCheck = null; });
+  };
+
+  // Run a round's unfinished questions (concurrently, up to maxParallel) as a dependency graph.
+  // 'running' ones were interrupted mid-way; runQuestion continues from their history.
+  const runRound = async (toRun: ResearchQuestionMemory[]) => {
+    await runWithConcurrency(toRun, maxParallel, async (pendingQ) => {
+      if (shouldStop()) return;
+      throwIfStopped(signal);
+
+      if (isKilled(pendingQ.id)) return;
 
-    // Add new questions from brain (with current round number)
-    if (evalResult.questions) {
-      for (const q of evalResult.questions) {
-        questions[q.id] = { ...q, round };
+      // Mark as running
+      questions[pendingQ.id] = { ...pendingQ, status: 'running' };
+      await save(state);
+
+      const questionController = new AbortController();
+      inFlight.set(pendingQ.id, questionController);
+      let result: Awaited<ReturnType<typeof runQuestion>>;
+      try {
+        result = await runQuestion(pendingQ, brain.objective, async (update) => {
+          onProgress?.(update);
+          if (isKilled(pendingQ.id)) return; // a kill keeps the state it was cancelled in
+          // Update question state from researcher progress and save to DB
+          // Only update if it's a proper question object (has history array)
+          if (update.question && typeof update.question === 'object' && Array.isArray(update.question.history)) {
+            questions[pendingQ.id] = update.question;
+            await save(state);
+          }
+        }, {
+          ...callOptions,
+          abortSignal: AbortSignal.any([signal, questionController.signal]),
+          budget,
+          dependencies: dependenciesOf(pendingQ).filter(d => d.status === 'done'),
+        });
+      } catch (error) {
+        if (isKilled(pendingQ.id) && !signal.aborted) return; // cancelled by a kill - not a failure
+        throw error;
+      } finally {
+        inFlight.delete(pendingQ.id);
       }
-    }
 
+      if (isKilled(pendingQ.id)) return; // killed while it was writing its answer
+      questions[pendingQ.id] = result.question;
+      brain.history.push({ type: 'question_done', questionId: pendingQ.id });
+      await save(state);
+      requestRoundCheck();
+    }, q => isReady(questions[q.id] || q));
+
+    // The round is over once its last check has been applied
+    while (roundCheck) await roundCheck;
+    throwIfStopped(signal);
+  };
+
+  try {
     await save(state);
+    if (checkpoint) {
+      onProgress?.({ type: 'research_resumed', objective: brain.objective, round });
+    } else {
+      onProgress?.({ type: 'research_initialized', objective: brain.objective });
+    }
 
-    // Run all pending questions
-    const pending = Object.values(questions).filter(q => q.status === 'pending');
+    // Main loop - brain evaluates, researchers execute, repeat.
+    // A round's questions are run before the next evaluate, so a resumed run first
+    // finishes the pending/running questions of the round it was checkpointed in.
+    // Once the reviewer has seen a draft, the loop is over (its follow-ups run below).
+    while (!brain.finalAnswer && !brainSaidDone() && !lastReview() && !shouldStop()) {
+      throwIfStopped(signal);
+
+      let toRun = unfinished();
+      if (toRun.length === 0) {
+        if (round >= CONFIG.maxRounds) break;
+        round++;
+
+        // Brain evaluates - decides continue or done
+        const completed = Object.values(questions).filter(q => q.status === 'done');
+        log('Brain evaluating...', { completedQuestions: completed.length });
+        const newNotes = (brain.steering || []).filter(n => n.appliedRound === undefined);
+        const evalResult = await brainEvaluate(brain.objective, completed, brain.successCriteria, {
+          ...callOptions,
+          remainingBudget: describeRemainingBudget(budget),
+          criteria: brain.criteria,
+          hypotheses: brain.hypotheses,
+        });
+        log('Brain decided', {
+          decision: evalResult.decision,
+          newQuestions: evalResult.questions?.length || 0,
+          killed: evalResult.kill?.length || 0,
+          merged: evalResult.merge?.length || 0,
+        });
+
+        if (newNotes.length > 0) {
+          for (const note of newNotes) note.appliedRound = round;
+          onProgress?.({ type: 'steering_applied', noteIds: newNotes.map(n => n.id), round });
+        }
 
-    for (const pendingQ of pending) {
-      if (shouldStop()) break;
+        applyPruning(evalResult);
 
-      // Mark as running
-      questions[pendingQ.id] = { ...pendingQ, status: 'running' };
-      await save(state);
+        // Update reason (always, if non-empty)
+        if (evalResult.reason && evalResult.reason.trim()) {
+          brain.reason = evalResult.reason;
+        }
 
-      const result = await runQuestion(pendingQ, brain.objective, async (update) => {
-        onProgress?.(update);
-        // Update question state from researcher progress and save to DB
-        // Only update if it's a proper question object (has history array)
-        if (update.question && typeof update.question === 'object' && Array.isArray(update.question.history)) {
-          questions[pendingQ.id] = update.question;
+        brain.history.push({
+          type: 'evaluate',
+          reasoning: evalResult.reasoning,
+          decision: evalResult.decision,
+          spawnedIds: evalResult.questions?.map(q => q.id),
+        });
+
+        onProgress?.({
+          type: 'brain_evaluate',
+          reasoning: evalResult.reasoning,
+          reason: evalResult.reason,
+          decision: evalResult.decision,
+          criteriaMet: brain.criteria?.filter(c => c.status === 'met').length ?? 0,
+          criteriaTotal: brain.criteria?.length ?? 0,
+          hypotheses: evalResult.hypotheses.map(h => ({ statement: h.statement, status: h.status })),
+        });
+
+        // If brain says done, we're ready to finish
+        if (evalResult.decision === 'done') {
           await save(state);
+          break;
+        }
+
+        // Add new questions from brain (with current round number)
+        if (evalResult.questions) {
+          for (const q of evalResult.questions) {
+            questions[q.id] = { ...q, round };
+            if (q.parentId) {
+              brain.history.push({ type: 'drill_down', parentId: q.parentId, questionId: q.id, round });
+              onProgress?.({ type: 'brain_action', action: 'drill_down', questionId: q.id, parentId: q.parentId, question: q.question });
+            }
+          }
         }
+
+        if (researchBrief.approvePlan && evalResult.questions?.length) {
+          brain.awaitingApproval = round;
+        }
+
+        await save(state);
+        toRun = unfinished();
+      }
+
+      // Also reached by a run resumed while it was waiting
+      if (brain.awaitingApproval === round) {
+        await waitForPlanApproval();
+        toRun = unfinished();
+      }
+
+      await runRound(toRun);
+
+      // Check if we should stop
+      if (shouldStop()) break;
+    }
+
+    throwIfStopped(signal);
+
+    // Reviewer - checks a first draft once per run. A pass makes the draft the final answer;
+    // a revise sends its notes (and maybe one follow-up round) back to Brain.finish.
+    // Skipped when the budget already ran out - the answer just says what's not covered.
+    if (!brain.finalAnswer && !lastReview() && !budgetLimit) {
+      const completed = Object.values(questions).filter(q => q.status === 'done');
+      log('Brain drafting...');
+      onProgress?.({ type: 'brain_finishing' });
+      const draft = await brainFinish(brain.objective, completed, brain.successCriteria, callOptions);
+      const draftAnswer = formatWithBibliography(draft.answer, draft.sources);
+
+      log('Reviewing draft...');
+      onProgress?.({ type: 'review_started' });
+      const reviewResult = await review(brain.objective, draftAnswer, completed, brain.successCriteria, {
+        ...callOptions,
+        canFollowUp: round < CONFIG.maxRounds && !shouldStop(),
+        remainingBudget: describeRemainingBudget(budget),
       });
+      log('Review', { verdict: reviewResult.verdict, missing: reviewResult.missing.length, followUps: reviewResult.questions?.length || 0 });
 
-      questions[pendingQ.id] = result.question;
-      brain.history.push({ type: 'question_done', questionId: pendingQ.id });
+      if (reviewResult.questions) {
+        round++;
+        for (const q of reviewResult.questions) {
+          questions[q.id] = { ...q, round };
+        }
+      }
+
+      brain.history.push({
+        type: 'review',
+        verdict: reviewResult.verdict,
+        critique: reviewResult.critique,
+        missing: reviewResult.missing,
+        unsupportedClaims: reviewResult.unsupportedClaims,
+        spawnedIds: reviewResult.questions?.map(q => q.id),
+      });
+
+      if (reviewResult.verdict === 'pass') {
+        brain.finalAnswer = draftAnswer;
+        brain.sources = draft.sources;
+      }
+
+      onProgress?.({
+        type: 'review',
+        verdict: reviewResult.verdict,
+        critique: reviewResult.critique,
+        missing: reviewResult.missing,
+        unsupportedClaims: reviewResult.unsupportedClaims,
+        followUps: reviewResult.questions?.map(q => q.question) || [],
+      });
       await save(state);
     }
 
-    // Check if we should stop
-    if (shouldStop()) break;
+    // Follow-up round the reviewer asked for (a resumed run continues it here)
+    const followUps = brain.finalAnswer ? [] : unfinished();
+    if (followUps.length > 0 && !shouldStop()) {
+      log('Running review follow-ups', { questions: followUps.length });
+      await runRound(followUps);
+      throwIfStopped(signal);
+    }
+
+    // Brain finishes - produces final answer (already there if the review passed, or we resumed after finishing)
+    if (!brain.finalAnswer) {
+      const completedFinal = Object.values(questions).filter(q => q.status === 'done');
+      const reviewed = lastReview();
+      log('Brain finishing...');
+      onProgress?.({ type: 'brain_finishing' });
+      const finishResult = await brainFinish(brain.objective, completedFinal, brain.successCriteria, {
+        ...callOptions,
+        budgetLimit: budgetLimit ?? undefined,
+        reviewNotes: reviewed ? formatReviewNotes(reviewed) : undefined,
+      });
+      brain.finalAnswer = formatWithBibliography(finishResult.answer, finishResult.sources);
+      brain.sources = finishResult.sources;
+      log('Brain finished', { answerLength: finishResult.answer.length, sources: finishResult.sources.length });
+    }
+    const finalAnswer = brain.finalAnswer || '';
+
+    await save(state);
+
+    onProgress?.({
+      type: 'research_complete',
+      totalQuestions: Object.keys(questions).length,
+      totalSearches: Object.values(questions).reduce((sum, q) => sum + q.history.filter(e => e.type === 'search').length, 0),
+      searchCache: searchCache.stats(),
+      answerLength: finalAnswer.length,
+    });
+
+    return {
+      completed: true,
+      totalQuestions: Object.keys(questions).length,
+      output: { finalAnswer, sources: brain.sources },
+      metrics: runMetrics(state, budget.spent()),
+    };
+  } catch (error) {
+    if (!signal.aborted) throw error;
+
+    // Stopped: persist what we have so the user can ask for partial results later
+    log('Research stopped', { questions: Object.keys(questions).length });
+    brain.stopped = true;
+    await save(state);
+    onProgress?.({ type: 'research_stopped', totalQuestions: Object.keys(questions).length });
+    throw new ResearchStoppedError(runMetrics(state, budget.spent()));
+  } finally {
+    clearInterval(stopPoll);
+    config.signal?.removeEventListener('abort', abortFromCaller);
+  }
+}
+
+// ============================================================
+// Partial results - Brain.finish over a stopped run's checkpoint
+// ============================================================
+
+export async function finishPartialResearch(chatSessionId: string, options: CallOptions = {}): Promise<RunResult> {
+  const [session] = await db
+    .select({ brain: chatSessions.brain })
+    .from(chatSessions)
+    .where(eq(chatSessions.id, chatSessionId));
+
+  const doc = session?.brain ? JSON.parse(session.brain) : null;
+  if (!doc || doc.version !== 1) {
+    throw new Error('No research to summarize');
   }
 
-  // Brain finishes - produces final answer
-  const completedFinal = Object.values(questions).filter(q => q.status === 'done');
-  log('Brain finishing...');
-  onProgress?.({ type: 'brain_finishing' });
-  const finishResult = await brainFinish(brain.objective, completedFinal, brain.successCriteria);
-  brain.finalAnswer = finishResult.answer;
-  log('Brain finished', { answerLength: finishResult.answer.length });
+  // Prefer the full checkpointed questions; fall back to rebuilding them from the BrainDoc
+  // (answers are all Brain.finish needs) for runs stopped before checkpoints existed
+  const checkpoint = await loadCheckpoint(chatSessionId);
+  type DocQuestion = ReturnType<typeof toFrontendFormat>['questions'][number];
+  const completed: ResearchQuestionMemory[] = checkpoint
+    ? Object.values(checkpoint.state.questions).filter(q => q.status === 'done' && q.answer)
+    : ((doc.questions || []) as DocQuestion[])
+      .filter(q => q.status === 'done' && q.document?.answer)
+      .map(q => ({
+        id: q.id,
+        question: q.question,
+        description: q.description || '',
+        goal: q.goal || '',
+        round: q.researchRound || 1,
+        status: 'done' as const,
+        history: [],
+        answer: q.document!.answer,
+        sources: (q.document!.sources || []).map((s: Citation) => ({ title: s.title, url: s.url })),
+        confidence: q.confidence || undefined,
+      }));
+
+  if (completed.length === 0) {
+    return {
+      completed: false,
+      totalQuestions: doc.questions?.length || 0,
+      output: { finalAnswer: 'Research was stopped before any question finished, so there are no partial results yet.' },
+    };
+  }
 
-  await save(state);
+  const finishResult = await brainFinish(doc.objective, completed, doc.successCriteria, { ...options, partial: true });
+  const finalAnswer = formatWithBibliography(finishResult.answer, finishResult.sources);
 
-  onProgress?.({
-    type: 'research_complete',
-    totalQuestions: Object.keys(questions).length,
-    answerLength: finishResult.answer.length,
-  });
+  await db.update(chatSessions)
+    .set({
+      brain: JSON.stringify({ ...doc, status: 'complete', finalAnswer }),
+      updatedAt: new Date(),
+    })
+    .where(eq(chatSessions.id, chatSessionId));
 
   return {
-    completed: true,
-    totalQuestions: Object.keys(questions).length,
-    output: { finalAnswer: finishResult.answer },
+    completed: false,
+    totalQuestions: doc.questions?.length || 0,
+    output: { finalAnswer, sources: finishResult.sources },
   };
 }
@@ -0,0 +1,153 @@
+/**
+ * Search cache - search_queries doubles as a TTL cache of provider answers
+ *
+ * One cache per research run (CallOptions.searchCache). Every search the run makes is
+ * recorded as a search_queries row - with the question that made it, why, and (once the
+ * researcher has evaluated it) whether it was useful. Before calling the provider, searchWeb
+ * looks for a fresh row with the same normalized query from the same provider - from any run.
+ * Only rows the provider answered (cache_hit = false) serve hits: the rows recording hits are
+ * newer copies, and serving them would keep a busy query from ever expiring.
+ * TTL: SEARCH_CACHE_TTL_HOURS (default 24, 0 = no lookups, searches are still recorded).
+ */
+
+import { db } from '@/lib/db';
+import { searchQueries, type NewSearchQuery } from '@/lib/db/schema';
+import { and, desc, eq, gt, ne } from 'drizzle-orm';
+import type { SearchProviderName } from '../types';
+import type { SearchResult } from './types';
+
+const DEFAULT_TTL_HOURS = 24;
+
+export interface SearchCacheStats {
+  hits: number;
+  misses: number;
+}
+
+// Who made a search and why - stored on its search_queries row
+export interface SearchRecordContext {
+  questionId?: string;
+  purpose?: string;
+  cycleNumber?: number; // the question's nth search
+}
+
+export interface SearchCache {
+  /** A fresh answer for this query, or null (errors count as a miss) */
+  lookup(query: string, provider: SearchProviderName): Promise<SearchResult | null>;
+  /** Store a search made by this run - returns the row id, or null if not stored. Never throws */
+  record(
+    query: string,
+    provider: SearchProviderName,
+    result: SearchResult,
+    cacheHit: boolean,
+    context?: SearchRecordContext
+  ): Promise<string | null>;
+  /** The researcher's verdict on a recorded search (search_queries.was_useful) - never throws */
+  markUseful(recordId: string, useful: boolean): Promise<void>;
+  stats(): SearchCacheStats;
+}
+
+export function normalizeQuery(query: string): string {
+  return query.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+function ttlMsFromEnv(): number {
+  const hours = Number(process.env.SEARCH_CACHE_TTL_HOURS ?? DEFAULT_TTL_HOURS);
+  return Number.isFinite(hours) && hours > 0 ? hours * 60 * 60 * 1000 : 0;
+}
+
+// The search_queries access behind the cache - tests pass their own
+export interface SearchCacheDeps {
+  now(): number;
+  /** Newest non-empty answer the provider itself gave for the query since `since` (cache hits don't count) */
+  findAnswer(queryNormalized: string, provider: SearchProviderName, since: Date): Promise<SearchResult | null>;
+  insert(row: NewSearchQuery): Promise<string>;
+  setUseful(recordId: string, useful: boolean): Promise<void>;
+}
+
+const defaultDeps: SearchCacheDeps = {
+  now: () => Date.now(),
+  findAnswer: async (queryNormalized, provider, since) => {
+    const [row] = await db
+      .select({ answer: searchQueries.answer, sources: searchQueries.sources })
+      .from(searchQueries)
+      .where(and(
+        eq(searchQueries.queryNormalized, queryNormalized),
+        eq(searchQueries.provider, provider),
+        eq(searchQueries.cacheHit, false),
+        ne(searchQueries.answer, ''),
+        gt(searchQueries.createdAt, since)
+      ))
+      .orderBy(desc(searchQueries.createdAt))
+      .limit(1);
+    return row?.answer ? { answer: row.answer, sources: (row.sources as SearchResult['sources']) || [] } : null;
+  },
+  insert: async (values) => {
+    const [row] = await db.insert(searchQueries).values(values).returning({ id: searchQueries.id });
+    return row.id;
+  },
+  setUseful: async (recordId, useful) => {
+    await db.update(searchQueries).set({ wasUseful: useful }).where(eq(searchQueries.id, recordId));
+  },
+};
+
+/**
+ * researchSessionId: rows are stored under it (search_queries requires one) - without it the
+ * cache only reads.
+ */
+export function createSearchCache(
+  config: { researchSessionId?: string; ttlMs?: number } = {},
+  deps: SearchCacheDeps = defaultDeps
+): SearchCache {
+  const ttlMs = config.ttlMs ?? ttlMsFromEnv();
+  const stats: SearchCacheStats = { hits: 0, misses: 0 };
+
+  return {
+    async lookup(query, provider) {
+      if (ttlMs <= 0) return null;
+      try {
+        const cached = await deps.findAnswer(normalizeQuery(query), provider, new Date(deps.now() - ttlMs));
+        if (cached) {
+          stats.hits++;
+          return cached;
+        }
+      } catch (error: unknown) {
+        console.error('[SearchCache] Lookup failed:', errorMessage(error));
+      }
+      stats.misses++;
+      return null;
+    },
+
+    async record(query, provider, result, cacheHit, context = {}) {
+      if (!config.researchSessionId) return null;
+      try {
+        return await deps.insert({
+          researchSessionId: config.researchSessionId,
+          questionId: context.questionId,
+          query,
+          queryNormalized: normalizeQuery(query),
+          provider,
+          cacheHit,
+          purpose: context.purpose,
+          cycleNumber: context.cycleNumber,
+          answer: result.answer,
+          sources: result.sources,
+        });
+      } catch (error: unknown) {
+        console.error('[SearchCache] Record failed:', errorMessage(error));
+        return null;
+      }
+    },
+
+    async markUseful(recordId, useful) {
+      try {
+        await deps.setUseful(recordId, useful);
+      } catch (error: unknown) {
+        console.error('[SearchCache] Rating failed:', errorMessage(error));
+      }
+    },
+
+    stats: () => ({ ...stats }),
+  };
+}
@@ -0,0 +1,58 @@
+/**
+ * Fixture search provider - offline, deterministic results for dev and tests
+ *
+ * Replays recorded results from SEARCH_FIXTURES_DIR (default scripts/fixtures/search),
+ * one JSON file per normalized query: { query, answer, sources }. With
+ * SEARCH_FIXTURE_RECORD=perplexity|tavily, a missing query is searched for real and saved,
+ * so a run can be recorded once and replayed without network or spend.
+ * Offered as a per-run choice only with SEARCH_FIXTURES=1 - never just because it isn't production.
+ */
+
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { toCallUsage } from '../budget';
+import type { SearchProvider, SearchResult } from './types';
+import { normalizeQuery } from './cache';
+
+function fixturesDir(): string {
+  return process.env.SEARCH_FIXTURES_DIR || path.join(process.cwd(), 'scripts', 'fixtures', 'search');
+}
+
+// Readable prefix + hash, so files are findable and never collide
+function fixturePath(query: string): string {
+  const normalized = normalizeQuery(query);
+  const slug = normalized.replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60);
+  const hash = createHash('sha1').update(normalized).digest('hex').slice(0, 8);
+  return path.join(fixturesDir(), `${slug || 'query'}-${hash}.json`);
+}
+
+export function createFixtureProvider(recordWith?: SearchProvider): SearchProvider {
+  return {
+    name: 'fixture',
+    isConfigured: () => process.env.SEARCH_FIXTURES === '1',
+
+    async search(query, options = {}) {
+      const file = fixturePath(query);
+
+      if (existsSync(file)) {
+        const recorded = JSON.parse(readFileSync(file, 'utf8'));
+        options.onUsage?.(toCallUsage('search', 'fixture'));
+        return { answer: recorded.answer || '', sources: recorded.sources || [] };
+      }
+
+      if (!recordWith) {
+        console.warn(`[Search] No fixture for "${query}" (${path.basename(file)})`);
+        options.onUsage?.(toCallUsage('search', 'fixture'));
+        return { answer: '', sources: [] };
+      }
+
+      // Record mode: real search (charged as such), then save it for next time
+      const result: SearchResult = await recordWith.search(query, options);
+      mkdirSync(path.dirname(file), { recursive: true });
+      writeFileSync(file, JSON.stringify({ query, provider: recordWith.name, ...result }, null, 2) + '\n');
+      console.log(`[Search] Recorded fixture ${path.basename(file)}`);
+      return result;
+    },
+  };
+}
@@ -0,0 +1,115 @@
+/**
+ * Web Search - one entry point over pluggable providers
+ *
+ * Provider: CallOptions.searchProvider (per run, from ResearchBrief.searchProvider), else
+ * SEARCH_PROVIDER env, else perplexity.
+ *   perplexity - sonar / sonar-pro (PERPLEXITY_API_KEY)
+ *   tavily     - Tavily search API (TAVILY_API_KEY)
+ *   fixture    - recorded results, offline (see ./fixture.ts)
+ *
+ * With CallOptions.searchCache, fresh answers to the same normalized query are reused
+ * instead of calling the provider again, and every search is recorded (see ./cache.ts).
+ */
+
+import { trackLlmCall } from '@/lib/eval';
+import type { CallOptions, SearchProviderName } from '../types';
+import type { SearchProvider, SearchResult } from './types';
+import { perplexityProvider } from './perplexity';
+import { tavilyProvider } from './tavily';
+import { createFixtureProvider } from './fixture';
+import type { SearchRecordContext } from './cache';
+
+export type { SearchProvider, SearchResult } from './types';
+export { createSearchCache } from './cache';
+export type { SearchCache, SearchCacheStats, SearchRecordContext } from './cache';
+
+const DEFAULT_PROVIDER: SearchProviderName = 'perplexity';
+
+const REAL_PROVIDERS: Record<Exclude<SearchProviderName, 'fixture'>, SearchProvider> = {
+  perplexity: perplexityProvider,
+  tavily: tavilyProvider,
+};
+
+const recordWith = REAL_PROVIDERS[process.env.SEARCH_FIXTURE_RECORD as keyof typeof REAL_PROVIDERS];
+
+const PROVIDERS: Record<SearchProviderName, SearchProvider> = {
+  ...REAL_PROVIDERS,
+  fixture: createFixtureProvider(recordWith),
+};
+
+export function isSearchProviderName(name: unknown): name is SearchProviderName {
+  return typeof name === 'string' && name in PROVIDERS;
+}
+
+/**
+ * Provider for a call: per-run choice, then SEARCH_PROVIDER env, then perplexity
+ */
+export function getSearchProvider(name?: SearchProviderName): SearchProvider {
+  const envName = process.env.SEARCH_PROVIDER;
+  if (name) return PROVIDERS[name];
+  if (isSearchProviderName(envName)) return PROVIDERS[envName];
+  return PROVIDERS[DEFAULT_PROVIDER];
+}
+
+export function availableSearchProviders(): SearchProviderName[] {
+  return (Object.keys(PROVIDERS) as SearchProviderName[]).filter(name => PROVIDERS[name].isConfigured());
+}
+
+export async function searchWeb(
+  query: string,
+  options: CallOptions = {},
+  context?: SearchRecordContext // stored with the search_queries row
+): Promise<SearchResult> {
+  const provider = getSearchProvider(options.searchProvider);
+  console.log(`[Search] Query (${provider.name}):`, query);
+
+  const normalizeUrl = (url: string) => {
+    const u = (url || '').trim();
+    if (!u) return '';
+    if (u.startsWith('http://') || u.startsWith('https://')) return u;
+    return `https://${u.replace(/^\/+/, '')}`;
+  };
+
+  // Fixtures are already free and offline - only real providers go through the cache
+  const cache = provider.name === 'fixture' ? undefined : options.searchCache;
+  const cached = cache ? await cache.lookup(query, provider.name) : null;
+  if (cache && cached) {
+    console.log('[Search] Cache hit:', query);
+    const recordId = await cache.record(query, provider.name, cached, true, context);
+    return { ...cached, cached: true, recordId: recordId ?? undefined };
+  }
+
+  try {
+    const result = await provider.search(query, options);
+
+    const answer = result.answer || '';
+    const sources = result.sources
+      .map((s, idx) => {
+        const url = normalizeUrl(s.url || '');
+        return {
+          title: (s.title || '').trim() || url || `Source ${idx + 1}`,
+          url
+        };
+      })
+      .filter(s => Boolean(s.url));
+
+    console.log('[Search] Answer length:', answer.length, 'sources:', sources.length);
+
+    // Track for evaluation
+    trackLlmCall({
+      agentId: 'HUP_QEr0v0IX', // Web Search
+      model: provider.name,
+      input: { query },
+      output: { answerLength: answer.length, sourcesCount: sources.length, answerPreview: answer.substring(0, 500) },
+    }).catch(() => {}); // Fire and forget
+
+    const recordId = await options.searchCache?.record(query, provider.name, { answer, sources }, false, context);
+
+    return { answer, sources, recordId: recordId ?? undefined };
+  } catch (error: unknown) {
+    // A stopped run must not be swallowed as an empty result
+    if (options.abortSignal?.aborted) throw error;
+    console.error('[Search Error]', error instanceof Error ? error.message : error);
+    return { answer: '', sources: [] };
+  }
+}
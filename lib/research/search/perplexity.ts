@@ -0,0 +1,40 @@
+/**
+ * Perplexity search provider - sonar, retried with sonar-pro when it returns no sources
+ */
+
+import { generateText } from 'ai';
+import { perplexity } from '@ai-sdk/perplexity';
+import { toCallUsage } from '../budget';
+import type { SearchProvider } from './types';
+
+export const perplexityProvider: SearchProvider = {
+  name: 'perplexity',
+  isConfigured: () => Boolean(process.env.PERPLEXITY_API_KEY),
+
+  async search(query, options = {}) {
+    // Each request is billed at its own model's price, reported as soon as it returns
+    // (the sonar-pro retry is a second billed request, so it counts against the budget too)
+    const run = async (modelName: 'sonar' | 'sonar-pro') => {
+      const result = await generateText({
+        model: perplexity(modelName),
+        prompt: query,
+        abortSignal: options.abortSignal
+      });
+      options.onUsage?.(toCallUsage('search', `perplexity-${modelName}`, result.usage));
+      return result;
+    };
+
+    // `sonar` is cheaper/faster but often returns no sources. If sources are empty,
+    // retry once with `sonar-pro` so the UI can show citations.
+    let { text, sources: rawSources } = await run('sonar');
+    if (!rawSources || rawSources.length === 0) {
+      ({ text, sources: rawSources } = await run('sonar-pro'));
+    }
+
+    return {
+      answer: text || '',
+      // Perplexity cites web pages - document sources have no URL to show
+      sources: (rawSources || []).flatMap(s => (s.sourceType === 'url' ? [{ title: s.title || '', url: s.url }] : [])),
+    };
+  },
+};
@@ -0,0 +1,48 @@
+/**
+ * Tavily search provider - search API with a generated answer + ranked results
+ */
+
+import { tavily } from '@tavily/core';
+import { toCallUsage } from '../budget';
+import type { SearchProvider } from './types';
+
+const CONFIG = {
+  searchDepth: 'advanced' as const, // 2 Tavily credits, better snippets than 'basic'
+  maxResults: 8,
+  timeoutSecs: 60,
+};
+
+let client: ReturnType<typeof tavily> | null = null;
+
+export const tavilyProvider: SearchProvider = {
+  name: 'tavily',
+  isConfigured: () => Boolean(process.env.TAVILY_API_KEY),
+
+  async search(query, options = {}) {
+    client ??= tavily({ apiKey: process.env.TAVILY_API_KEY });
+
+    // The client takes no AbortSignal - at least don't start once the run is stopped
+    options.abortSignal?.throwIfAborted();
+
+    const response = await client.search(query, {
+      searchDepth: CONFIG.searchDepth,
+      includeAnswer: 'advanced',
+      maxResults: CONFIG.maxResults,
+      timeout: CONFIG.timeoutSecs,
+    });
+
+    options.abortSignal?.throwIfAborted();
+    options.onUsage?.(toCallUsage('search', `tavily-${CONFIG.searchDepth}`));
+
+    // No generated answer (rare) - fall back to the top snippets so the researcher has something
+    const answer = response.answer || response.results
+      .slice(0, 3)
+      .map(r => `${r.title}: ${r.content}`)
+      .join('\n\n');
+
+    return {
+      answer,
+      sources: response.results.map(r => ({ title: r.title || '', url: r.url })),
+    };
+  },
+};
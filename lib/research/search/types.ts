@@ -0,0 +1,20 @@
+/**
+ * Search provider contract - every backend returns the same SearchResult
+ */
+
+import type { CallOptions, SearchProviderName } from '../types';
+
+export interface SearchResult {
+  answer: string;
+  sources: Array<{ title: string; url: string }>;
+  cached?: boolean; // set by searchWeb when the answer came from the search cache
+  recordId?: string; // set by searchWeb: the search_queries row it was recorded as
+}
+
+export interface SearchProvider {
+  name: SearchProviderName;
+  /** Has what it needs (API key, fixtures dir) to run */
+  isConfigured(): boolean;
+  /** Throws on failure - searchWeb turns errors into an empty result. Reports usage via options.onUsage */
+  search(query: string, options?: CallOptions): Promise<SearchResult>;
+}
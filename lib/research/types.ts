@@ -2,29 +2,115 @@
  * Research System Types - Simplified
  */
 
+import type { SearchCache } from './search/cache';
+
 // ============================================================
 // Brain Memory - Brain's orchestration log
 // ============================================================
 
 export type BrainEvent =
   | { type: 'evaluate'; reasoning: string; decision: 'continue' | 'done'; spawnedIds?: string[] }
-  | { type: 'question_done'; questionId: string };
+  | { type: 'question_done'; questionId: string }
+  // Brain.evaluate's actions on existing questions (round = the round they were decided for)
+  | { type: 'drill_down'; parentId: string; questionId: string; round: number }
+  | { type: 'kill'; questionId: string; reason: string; round: number }
+  | { type: 'merge'; questionId: string; intoId: string; reason: string; round: number }
+  // The user's edit of a round's proposed questions (approval mode, lib/sessions/plan-approval.ts)
+  | { type: 'plan_approved'; round: number; editedIds: string[]; removedIds: string[]; addedIds: string[] }
+  | {
+      type: 'review'; // reviewer's verdict on the first draft (reviewer.ts) - at most one per run
+      verdict: 'pass' | 'revise';
+      critique: string;
+      missing: string[];
+      unsupportedClaims: string[];
+      spawnedIds?: string[]; // follow-up round it sent the research back for
+    };
+
+// One success criterion from the brief, as the brain currently judges it (updated by every Brain.evaluate)
+export interface SuccessCriterion {
+  id: string;
+  text: string;
+  status: 'unmet' | 'partial' | 'met';
+  questionIds: string[]; // questions whose findings support it
+  evidence?: string; // why the brain judges it this way
+}
+
+// A bet the brain is testing - questions are spawned to support or refute one
+export interface Hypothesis {
+  id: string;
+  statement: string;
+  status: 'open' | 'supported' | 'refuted';
+  supportingIds: string[]; // questions whose findings support it
+  refutingIds: string[]; // questions whose findings contradict it
+}
+
+// A note the user sent while the run was going ("focus on pricing") - lib/sessions/steering.ts
+export interface SteeringNote {
+  id: string;
+  text: string;
+  createdAt: string;
+  appliedRound?: number; // set once a Brain.evaluate has planned with it
+}
+
+// A question as the user sees it in approval mode - no id = added by the user
+export interface PlanQuestion {
+  id?: string;
+  question: string;
+  description: string;
+  goal: string;
+}
+
+// chat_sessions.plan_approval: the round waiting for the user, then the plan they approved
+export interface PlanApproval {
+  round: number;
+  status: 'pending' | 'approved';
+  questions?: PlanQuestion[];
+}
 
 export interface BrainMemory {
   objective: string;
   successCriteria?: string[];
+  criteria?: SuccessCriterion[]; // successCriteria as a checklist (unset in checkpoints from before it existed)
+  hypotheses?: Hypothesis[]; // created and re-judged by every Brain.evaluate
+  steering?: SteeringNote[]; // user notes picked up during the run, in arrival order
+  awaitingApproval?: number; // approval mode: this round's questions wait for the user's plan
   reason?: string;
   history: BrainEvent[];
-  finalAnswer?: string;
+  finalAnswer?: string; // includes its "## Sources" bibliography
+  sources?: Citation[]; // finalAnswer's bibliography - [n] markers index into it
+  stopped?: boolean; // true once the user stopped the run (BrainDoc is partial)
 }
 
 // ============================================================
 // Research Question Memory - Researcher's workspace
 // ============================================================
 
+// A numbered reference: [n] in an answer is sources[n - 1] (lib/research/citations.ts)
+export interface Citation {
+  title: string;
+  url: string;
+}
+
 export type ResearchQuestionEvent =
   | { type: 'search'; query: string; answer: string; sources?: Array<{ title: string; url: string }> }
-  | { type: 'reflect'; thought: string };
+  | { type: 'read'; url: string; title: string; content: string; error?: string } // fetched page (error = couldn't read it)
+  | {
+      type: 'reflect';
+      thought: string;
+      decision?: 'continue' | 'done';
+      nextAction?: 'search' | 'read'; // unset = search (checkpoints from before page reads)
+      nextQuery?: string;
+      nextUrl?: string;
+    };
+
+// One atomic fact a researcher established, with what backs it
+export interface Finding {
+  id: string;
+  claim: string;
+  evidence: string; // short snippet/figure from the sources that supports the claim
+  sources: Citation[]; // subset of the question's sources
+  confidence: 'low' | 'medium' | 'high';
+}
 
 export interface ResearchQuestionMemory {
   id: string;
@@ -32,14 +118,20 @@ export interface ResearchQuestionMemory {
   description: string;
   goal: string;
   round: number;
-  status: 'pending' | 'running' | 'done';
+  status: 'pending' | 'running' | 'done' | 'killed'; // killed = dropped by the brain (never runs / not used)
+  parentId?: string; // drill-down: the question this one digs into
+  dependsOn?: string[]; // questions that must be done first - their answers go into this one's prompts
+  hypothesisId?: string; // the hypothesis this question tests
+  mergedInto?: string; // killed as a duplicate - its answer and findings were folded into this question
   history: ResearchQuestionEvent[];
-  answer?: string;
+  answer?: string; // cites sources as [n]
+  sources?: Citation[];
+  findings?: Finding[]; // what Brain.evaluate reasons over (answer is the prose for Brain.finish)
   confidence?: 'low' | 'medium' | 'high';
 }
 
 // ============================================================
-// Storage blob (stored in chat_sessions.brain)
+// Storage blob (checkpointed to chat_sessions.current_research)
 // ============================================================
 
 export interface ResearchState {
@@ -47,6 +139,63 @@ export interface ResearchState {
   questions: Record<string, ResearchQuestionMemory>;
 }
 
+export interface ResearchCheckpoint {
+  version: 1;
+  runId?: string; // research job id - a checkpoint only resumes the run that wrote it
+  round: number;
+  elapsedMs: number; // wall time already spent, so a resumed run keeps its time budget
+  spent?: BudgetSpent; // credits/searches/tokens already spent, for the same reason
+  state: ResearchState;
+}
+
+// ============================================================
+// Budget - per-run limits (on the ResearchBrief)
+// ============================================================
+
+export interface ResearchBudget {
+  maxCredits?: number;
+  maxSearches?: number; // web searches across the whole run
+  maxTokens?: number; // LLM tokens across the whole run (incl. search models)
+  maxTimeMs?: number;
+  minSearchesPerQuestion?: number;
+  maxSearchesPerQuestion?: number;
+}
+
+export interface BudgetSpent {
+  credits: number;
+  searches: number;
+  tokens: number;
+}
+
+// What a run did - stored on research_sessions when it ends
+export interface RunMetrics {
+  totalSteps: number; // researcher searches + page reads
+  confidence: 'low' | 'medium' | 'high' | null; // median of the answered questions' confidence
+  spent: BudgetSpent;
+}
+
+// One model call, reported through CallOptions.onUsage
+export interface CallUsage {
+  kind: 'llm' | 'search';
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// ============================================================
+// Call options (threaded through brain → researcher → search)
+// ============================================================
+
+export type SearchProviderName = 'perplexity' | 'tavily' | 'fixture';
+
+export interface CallOptions {
+  abortSignal?: AbortSignal;
+  onUsage?: (usage: CallUsage) => void;
+  searchProvider?: SearchProviderName; // unset = SEARCH_PROVIDER env (lib/research/search)
+  searchCache?: SearchCache; // per-run cache + search_queries log (unset = always hit the provider)
+  steeringNotes?: () => string[]; // user notes so far - read at every call, so running researchers see new ones
+}
+
 // ============================================================
 // Helpers
 // ============================================================
@@ -56,7 +205,11 @@ export function generateId(): string {
 }
 
 export function createBrainMemory(objective: string, successCriteria?: string[]): BrainMemory {
-  return { objective, successCriteria, history: [] };
+  return { objective, successCriteria, criteria: createCriteria(successCriteria), hypotheses: [], history: [] };
+}
+
+export function createCriteria(successCriteria: string[] = []): SuccessCriterion[] {
+  return successCriteria.map((text, i) => ({ id: `c_${i + 1}`, text, status: 'unmet', questionIds: [] }));
 }
 
 export function createQuestion(
@@ -0,0 +1,73 @@
+/**
+ * Session access guard - every /api/sessions/[id]/* route goes through this
+ *
+ * Resolves the Clerk user and loads the chat session only if that user owns it.
+ * Someone else's session answers 404 exactly like a missing one, so ids can't be probed.
+ */
+
+import { auth } from '@clerk/nextjs/server';
+import { db } from '@/lib/db';
+import { chatSessions, users, type ChatSession, type User } from '@/lib/db/schema';
+import { eq, and } from 'drizzle-orm';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export type SessionAccess =
+  | { ok: true; user: User; session: ChatSession }
+  | { ok: false; response: Response };
+
+function deny(status: number, error: string): SessionAccess {
+  return { ok: false, response: Response.json({ error }, { status }) };
+}
+
+// The lookups behind the guard - tests pass their own
+export interface SessionAccessDeps {
+  clerkUserId(): Promise<string | null>;
+  findUser(clerkUserId: string): Promise<User | undefined>;
+  findOwnedSession(sessionId: string, userId: string): Promise<ChatSession | undefined>;
+}
+
+const defaultDeps: SessionAccessDeps = {
+  clerkUserId: async () => (await auth()).userId,
+  findUser: async (clerkUserId) => {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(eq(users.clerkId, clerkUserId));
+    return user;
+  },
+  findOwnedSession: async (sessionId, userId) => {
+    const [session] = await db
+      .select()
+      .from(chatSessions)
+      .where(and(eq(chatSessions.id, sessionId), eq(chatSessions.userId, userId)));
+    return session;
+  },
+};
+
+/**
+ * Usage in a route:
+ *   const access = await requireSessionAccess(sessionId);
+ *   if (!access.ok) return access.response;
+ */
+export async function requireSessionAccess(
+  sessionId: string,
+  deps: SessionAccessDeps = defaultDeps
+): Promise<SessionAccess> {
+  const clerkUserId = await deps.clerkUserId();
+  if (!clerkUserId) return deny(401, 'Unauthorized');
+
+  // Not a uuid can't be a session - and would make Postgres throw
+  if (!UUID_PATTERN.test(sessionId)) return deny(404, 'Session not found');
+
+  const user = await deps.findUser(clerkUserId);
+  if (!user) return deny(404, 'User not found');
+
+  const session = await deps.findOwnedSession(sessionId, user.id);
+  if (!session) {
+    console.warn(`[Access] User ${user.id} denied session ${sessionId}`);
+    return deny(404, 'Session not found');
+  }
+
+  return { ok: true, user, session };
+}
@@ -0,0 +1,125 @@
+/**
+ * Conversation helpers - messages the research run appends to chat_sessions.messages
+ *
+ * Shared by the message route and the research job worker.
+ */
+
+import { db } from '@/lib/db';
+import { chatSessions } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import type { Citation } from '@/lib/research/types';
+import { stripBibliography } from '@/lib/research/citations';
+
+// Option offered after the user stops a run - picking it runs Brain.finish over what we have
+export const PARTIAL_RESULTS_OPTION = 'Summarize partial results';
+
+export const FOLLOW_UP_QUESTION = 'What would you like to do next?';
+export const FOLLOW_UP_OPTIONS = [
+  { label: 'Dive deeper' },
+  { label: 'New research' },
+  { label: 'Done for now' }
+];
+
+export const STOPPED_MESSAGE = 'Research stopped.';
+export const STOPPED_OPTIONS = [{ label: PARTIAL_RESULTS_OPTION }, { label: 'New research' }];
+
+// One chat_sessions.messages entry - SessionView renders it by metadata.type / metadata.kind
+export interface ConversationMessage {
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  timestamp: string;
+  metadata?: Record<string, unknown>;
+}
+
+export const OUT_OF_CREDITS_MESSAGE = 'You\'re out of credits, so research was stopped. Buy more on the [Credits page](/credits) to continue.';
+
+/**
+ * Append messages to the stored conversation (re-reads it so concurrent appends aren't lost)
+ */
+export async function appendMessages(
+  sessionId: string,
+  newMessages: ConversationMessage[],
+  extra: { status?: string } = {}
+): Promise<void> {
+  const [session] = await db
+    .select({ messages: chatSessions.messages })
+    .from(chatSessions)
+    .where(eq(chatSessions.id, sessionId));
+
+  await db
+    .update(chatSessions)
+    .set({
+      messages: (session?.messages as ConversationMessage[] || []).concat(newMessages),
+      ...extra,
+      updatedAt: new Date()
+    })
+    .where(eq(chatSessions.id, sessionId));
+}
+
+/**
+ * Append a research answer (+ context message for intake + follow-up options) to the conversation.
+ * sources = the answer's bibliography, kept on the message so SessionView can render footnotes.
+ */
+export async function appendResearchResult(
+  sessionId: string,
+  objective: string,
+  finalMessage: string,
+  sources: Citation[] = []
+): Promise<void> {
+  // Add a context message so intake knows what just happened
+  const researchContextMessage: ConversationMessage = {
+    role: 'assistant',
+    content: `[Research completed] Objective: ${objective}`,
+    timestamp: new Date().toISOString(),
+    metadata: {
+      type: 'research_context',
+      objective,
+      summary: stripBibliography(finalMessage).substring(0, 800)
+    }
+  };
+
+  await appendMessages(sessionId, [
+    researchContextMessage,
+    {
+      role: 'assistant',
+      content: finalMessage,
+      timestamp: new Date().toISOString(),
+      metadata: { kind: 'research_result', sources }
+    },
+    {
+      role: 'assistant',
+      content: FOLLOW_UP_QUESTION,
+      timestamp: new Date().toISOString(),
+      metadata: { type: 'multi_choice_select', options: FOLLOW_UP_OPTIONS }
+    }
+  ], { status: 'active' });
+}
+
+/**
+ * Append the "Research stopped" prompt offering partial results (BrainDoc was persisted by runResearch)
+ */
+export async function appendStoppedMessage(sessionId: string, objective: string): Promise<void> {
+  await appendMessages(sessionId, [{
+    role: 'assistant',
+    content: STOPPED_MESSAGE,
+    timestamp: new Date().toISOString(),
+    metadata: {
+      type: 'multi_choice_select',
+      options: STOPPED_OPTIONS,
+      stoppedResearch: true,
+      objective
+    }
+  }]);
+}
+
+/**
+ * Append the "out of credits" notice when metering stopped a run (no partial-results offer - that costs credits too)
+ */
+export async function appendOutOfCreditsMessage(sessionId: string): Promise<void> {
+  await appendMessages(sessionId, [{
+    role: 'assistant',
+    content: OUT_OF_CREDITS_MESSAGE,
+    timestamp: new Date().toISOString(),
+    metadata: { kind: 'out_of_credits' }
+  }], { status: 'active' });
+}
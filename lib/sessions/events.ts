@@ -0,0 +1,121 @@
+/**
+ * Session Events - Numbered, stored progress events (SSE replay)
+ *
+ * Each progress event gets a per-session seq that doubles as its SSE `id:`, and is stored
+ * in session_events so GET /api/sessions/[id]/stream can replay from Last-Event-ID.
+ * The seq is allocated by the insert itself (max + 1, retried when another writer took it),
+ * so several writers on one session - the message route, a worker, a requeued job's old
+ * worker - never lose an event. A writer's own events are stored in the order recorded.
+ */
+
+import { db } from '@/lib/db';
+import { sessionEvents } from '@/lib/db/schema';
+import type { SessionEvent } from '@/lib/db/schema';
+import { and, asc, desc, eq, gt, max, sql } from 'drizzle-orm';
+import { isUniqueViolation } from '@/lib/db/errors';
+
+// Not stored: conversation messages live in chat_sessions.messages, the BrainDoc in
+// chat_sessions.brain (replay sends the current snapshot), complete/error are stream control
+const UNSTORED_EVENTS = new Set(['brain_update', 'message', 'multi_choice_select', 'ask_user', 'research_estimate', 'complete', 'error']);
+
+const MAX_INSERT_ATTEMPTS = 5; // concurrent writers racing for the same seq
+
+// A progress update as the client gets it over SSE: a type plus its payload
+export interface ResearchProgressEvent {
+  type: string;
+  [key: string]: unknown;
+}
+
+export interface EventLog {
+  /** Number and store an event; resolves to its id, or null for events that aren't stored */
+  record(event: ResearchProgressEvent): Promise<number | null>;
+  /** Resolves once every recorded event is written */
+  flush(): Promise<void>;
+}
+
+/**
+ * Store one event under the next free seq for the session
+ */
+async function insertEvent(chatSessionId: string, type: string, data: unknown): Promise<number> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const result = await db.execute<{ seq: number }>(sql`
+        insert into ${sessionEvents} (chat_session_id, seq, type, data)
+        select ${chatSessionId}::uuid, coalesce(max(${sessionEvents.seq}), 0) + 1, ${type}, ${JSON.stringify(data)}::jsonb
+        from ${sessionEvents}
+        where ${sessionEvents.chatSessionId} = ${chatSessionId}::uuid
+        returning seq
+      `);
+      return Number(result.rows[0].seq);
+    } catch (error) {
+      if (!isUniqueViolation(error) || attempt >= MAX_INSERT_ATTEMPTS) throw error;
+    }
+  }
+}
+
+export async function openEventLog(chatSessionId: string): Promise<EventLog> {
+  let writeQueue: Promise<number | null> = Promise.resolve(null);
+
+  return {
+    record(event) {
+      if (!event.type || UNSTORED_EVENTS.has(event.type)) return Promise.resolve(null);
+
+      // Researcher events carry the full question memory - the checkpoint already has it
+      const { question, ...rest } = event;
+      const data = question && typeof question === 'object' ? rest : event;
+
+      writeQueue = writeQueue
+        .then(() => insertEvent(chatSessionId, event.type, data))
+        .catch(err => {
+          console.error(`[Events] Failed to store event (${event.type}):`, err);
+          return null;
+        });
+      return writeQueue;
+    },
+    async flush() {
+      await writeQueue;
+    },
+  };
+}
+
+/**
+ * One SSE frame. Numbered events carry their id both as `id:` (EventSource Last-Event-ID)
+ * and in the payload (for fetch-based readers).
+ */
+export function formatSseEvent(event: ResearchProgressEvent, id?: number | null): string {
+  if (!id) return `data: ${JSON.stringify(event)}\n\n`;
+  return `id: ${id}\ndata: ${JSON.stringify({ ...event, id })}\n\n`;
+}
+
+export async function getEventsAfter(chatSessionId: string, afterSeq: number, limit = 200): Promise<SessionEvent[]> {
+  return db
+    .select()
+    .from(sessionEvents)
+    .where(and(eq(sessionEvents.chatSessionId, chatSessionId), gt(sessionEvents.seq, afterSeq)))
+    .orderBy(asc(sessionEvents.seq))
+    .limit(limit);
+}
+
+export async function getLatestSeq(chatSessionId: string): Promise<number> {
+  const [row] = await db
+    .select({ maxSeq: max(sessionEvents.seq) })
+    .from(sessionEvents)
+    .where(eq(sessionEvents.chatSessionId, chatSessionId));
+
+  return row?.maxSeq ?? 0;
+}
+
+/**
+ * Where a fresh subscriber (no Last-Event-ID) starts: just before the latest research_started,
+ * so the replay rebuilds the current run's event log
+ */
+export async function getReplayStart(chatSessionId: string): Promise<number> {
+  const [row] = await db
+    .select({ seq: sessionEvents.seq })
+    .from(sessionEvents)
+    .where(and(eq(sessionEvents.chatSessionId, chatSessionId), eq(sessionEvents.type, 'research_started')))
+    .orderBy(desc(sessionEvents.seq))
+    .limit(1);
+
+  return row ? row.seq - 1 : await getLatestSeq(chatSessionId);
+}
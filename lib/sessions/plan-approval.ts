@@ -0,0 +1,121 @@
+/**
+ * Plan approval - approval mode (ResearchBrief.approvePlan) lets the user vet each round's questions
+ *
+ * After a Brain.evaluate that spawns questions, runResearch marks the round pending in
+ * chat_sessions.plan_approval, emits plan_proposed and waits. POST /api/sessions/[id]/plan
+ * stores the approved questions (edited, removed, added); the run picks them up, applies them
+ * and clears the column. A run resumed mid-wait finds an approval that landed meanwhile.
+ * A wait that outlasts its timeout ends the run (PlanApprovalTimeoutError): the worker parks the
+ * job so it frees its slot, and the plan route requeues it once the user approves.
+ */
+
+import { db } from '@/lib/db';
+import { chatSessions } from '@/lib/db/schema';
+import { and, eq, sql } from 'drizzle-orm';
+import type { PlanApproval, PlanQuestion } from '@/lib/research/types';
+import { throwIfStopped } from '@/lib/research/cancel';
+
+export const MAX_PLAN_QUESTIONS = 8;
+const MAX_FIELD_LENGTH = 500;
+
+export class PlanApprovalTimeoutError extends Error {
+  constructor(public readonly round: number) {
+    super(`Plan for round ${round} was not approved in time`);
+    this.name = 'PlanApprovalTimeoutError';
+  }
+}
+
+async function getPlanApproval(sessionId: string): Promise<PlanApproval | null> {
+  const [row] = await db
+    .select({ planApproval: chatSessions.planApproval })
+    .from(chatSessions)
+    .where(eq(chatSessions.id, sessionId));
+  return (row?.planApproval as PlanApproval | null) ?? null;
+}
+
+/**
+ * Mark the round as waiting for the user (kept as is if they already approved it)
+ */
+export async function openPlanApproval(sessionId: string, round: number): Promise<void> {
+  const current = await getPlanApproval(sessionId);
+  if (current?.round === round && current.status === 'approved') return;
+
+  const pending: PlanApproval = { round, status: 'pending' };
+  await db
+    .update(chatSessions)
+    .set({ planApproval: pending })
+    .where(eq(chatSessions.id, sessionId));
+}
+
+/**
+ * The questions the user approved for this round, or null while they haven't
+ */
+export async function getApprovedPlan(sessionId: string, round: number): Promise<PlanQuestion[] | null> {
+  const current = await getPlanApproval(sessionId);
+  return current?.round === round && current.status === 'approved' ? current.questions || [] : null;
+}
+
+/**
+ * Poll until the user approves this round's plan
+ * @throws PlanApprovalTimeoutError after timeoutMs, ResearchStoppedError once signal aborts
+ */
+export async function waitForApprovedPlan(
+  sessionId: string,
+  round: number,
+  options: { signal?: AbortSignal; pollMs: number; timeoutMs: number; getPlan?: typeof getApprovedPlan }
+): Promise<PlanQuestion[]> {
+  const getPlan = options.getPlan ?? getApprovedPlan;
+  const deadline = Date.now() + options.timeoutMs;
+  for (;;) {
+    throwIfStopped(options.signal);
+    await new Promise(resolve => setTimeout(resolve, options.pollMs));
+    const plan = await getPlan(sessionId, round).catch(() => null); // transient DB error - try again
+    if (plan) return plan;
+    if (Date.now() >= deadline) throw new PlanApprovalTimeoutError(round);
+  }
+}
+
+/**
+ * Store the user's plan - only for the round that is waiting (false otherwise)
+ */
+export async function approvePlan(sessionId: string, round: number, questions: PlanQuestion[]): Promise<boolean> {
+  const approved: PlanApproval = { round, status: 'approved', questions };
+  const rows = await db
+    .update(chatSessions)
+    .set({ planApproval: approved })
+    .where(and(
+      eq(chatSessions.id, sessionId),
+      sql`${chatSessions.planApproval}->>'status' = 'pending'`,
+      sql`(${chatSessions.planApproval}->>'round')::int = ${round}`
+    ))
+    .returning({ id: chatSessions.id });
+  return rows.length > 0;
+}
+
+export async function clearPlanApproval(sessionId: string): Promise<void> {
+  await db
+    .update(chatSessions)
+    .set({ planApproval: null })
+    .where(eq(chatSessions.id, sessionId));
+}
+
+/**
+ * Validate a plan from the client - null if it isn't a list of 1..MAX_PLAN_QUESTIONS questions
+ */
+export function parsePlanQuestions(value: unknown): PlanQuestion[] | null {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_PLAN_QUESTIONS) return null;
+
+  const text = (v: unknown) => (typeof v === 'string' ? v.trim().substring(0, MAX_FIELD_LENGTH) : '');
+  const questions: PlanQuestion[] = [];
+  for (const item of value) {
+    const question = text(item?.question);
+    if (!question) return null;
+    questions.push({
+      ...(typeof item.id === 'string' && { id: item.id }),
+      question,
+      description: text(item.description),
+      goal: text(item.goal),
+    });
+  }
+  return questions;
+}
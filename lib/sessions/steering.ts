@@ -0,0 +1,50 @@
+/**
+ * Steering notes - instructions the user sends while a run is going ("ignore EU vendors")
+ *
+ * POST /api/sessions/[id]/steer appends a note to chat_sessions.steering_notes and to the
+ * transcript. runResearch picks new notes up with its stop poll (any process), keeps them on
+ * BrainMemory.steering and feeds them to the brain and the running researchers.
+ */
+
+import { db } from '@/lib/db';
+import { chatSessions } from '@/lib/db/schema';
+import { eq, sql } from 'drizzle-orm';
+import type { SteeringNote } from '@/lib/research/types';
+import { generateId } from '@/lib/research/types';
+import { appendMessages } from './conversation';
+
+export const MAX_STEERING_NOTE_LENGTH = 500;
+
+/**
+ * Store a note for the running research (appended in SQL, so notes sent in quick succession all land)
+ */
+export async function addSteeringNote(sessionId: string, text: string): Promise<SteeringNote> {
+  const note: SteeringNote = {
+    id: `n_${generateId()}`,
+    text: text.trim().substring(0, MAX_STEERING_NOTE_LENGTH),
+    createdAt: new Date().toISOString(),
+  };
+
+  await db
+    .update(chatSessions)
+    .set({ steeringNotes: sql`${chatSessions.steeringNotes} || ${JSON.stringify([note])}::jsonb` })
+    .where(eq(chatSessions.id, sessionId));
+
+  await appendMessages(sessionId, [{
+    role: 'user',
+    content: note.text,
+    timestamp: note.createdAt,
+    metadata: { type: 'steering_note', noteId: note.id }
+  }]);
+
+  return note;
+}
+
+/**
+ * Notes sent since the run started - research starts reset them (confirm route)
+ */
+export function parseSteeringNotes(value: unknown): SteeringNote[] {
+  return Array.isArray(value)
+    ? value.filter((n): n is SteeringNote => typeof n?.id === 'string' && typeof n?.text === 'string')
+    : [];
+}
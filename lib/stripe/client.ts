@@ -1,16 +1,13 @@
 import Stripe from 'stripe';
 
-// Stripe disabled for POC
-// if (!process.env.STRIPE_SECRET_KEY) {
-//   throw new Error('STRIPE_SECRET_KEY is not defined');
-// }
+// Optional: without STRIPE_SECRET_KEY, /api/credits/purchase answers 503
 
-export const stripe = process.env.STRIPE_SECRET_KEY
+export const stripe: Stripe | null = process.env.STRIPE_SECRET_KEY
   ? new Stripe(process.env.STRIPE_SECRET_KEY, {
       apiVersion: '2025-12-15.clover',
       typescript: true,
     })
-  : null as any;
+  : null;
 
 export interface CreditPackage {
   id: string;
@@ -46,3 +43,7 @@ export const CREDIT_PACKAGES: CreditPackage[] = [
     discount: '20% off',
   },
 ];
+
+export function getCreditPackage(packageId: string | null | undefined): CreditPackage | undefined {
+  return CREDIT_PACKAGES.find(pkg => pkg.id === packageId);
+}
@@ -0,0 +1,85 @@
+/**
+ * Stripe fulfillment - turns verified webhook events into credits
+ *
+ * Called by /api/webhooks/stripe after signature verification, and by
+ * scripts/replay-stripe-webhook.ts with recorded payloads. Crediting is idempotent per
+ * checkout session (credit_transactions.external_id), so Stripe retries and replays are safe.
+ * A paid checkout that can never be credited (unknown user, missing metadata) is logged for
+ * manual reconciliation and acknowledged - a retry would fail the same way, forever.
+ */
+
+import type Stripe from 'stripe';
+import { addCredits, userExists } from '@/lib/credits';
+import { getCreditPackage } from './client';
+
+export interface StripeEventResult {
+  handled: boolean; // false = event type we don't act on
+  credited?: boolean; // false = already credited, not paid yet, or unfulfilled
+  unfulfilled?: string; // why a paid checkout couldn't be credited - needs manual reconciliation
+}
+
+export type FulfillmentResult = Pick<StripeEventResult, 'credited' | 'unfulfilled'>;
+
+// The credit operations behind fulfillment - tests pass their own
+export interface FulfillmentDeps {
+  addCredits: typeof addCredits;
+  userExists: typeof userExists;
+}
+
+const defaultDeps: FulfillmentDeps = { addCredits, userExists };
+
+export async function handleStripeEvent(event: Stripe.Event, deps: FulfillmentDeps = defaultDeps): Promise<StripeEventResult> {
+  switch (event.type) {
+    case 'checkout.session.completed':
+    case 'checkout.session.async_payment_succeeded': // delayed payment methods settle later
+      return { handled: true, ...(await fulfillCheckoutSession(event.data.object, deps)) };
+    default:
+      return { handled: false };
+  }
+}
+
+// Paid, but there's no one or nothing to credit - leave it to a human (refund or credit by hand)
+function unfulfilled(session: Stripe.Checkout.Session, reason: string): FulfillmentResult {
+  console.error(`[Stripe] Checkout ${session.id} needs manual reconciliation: ${reason}`, {
+    userId: session.metadata?.userId || session.client_reference_id,
+    packageId: session.metadata?.packageId,
+    amountTotal: session.amount_total,
+    currency: session.currency,
+    customerEmail: session.customer_details?.email,
+  });
+  return { credited: false, unfulfilled: reason };
+}
+
+/**
+ * Credit the package bought in a paid Checkout Session
+ * @throws Error only for failures worth a Stripe retry (database down) - see unfulfilled()
+ */
+export async function fulfillCheckoutSession(
+  session: Stripe.Checkout.Session,
+  deps: FulfillmentDeps = defaultDeps
+): Promise<FulfillmentResult> {
+  if (session.payment_status !== 'paid') {
+    console.log(`[Stripe] Checkout ${session.id} not paid yet (${session.payment_status}) - waiting for async payment`);
+    return { credited: false };
+  }
+
+  const userId = session.metadata?.userId || session.client_reference_id;
+  const pkg = getCreditPackage(session.metadata?.packageId);
+  if (!userId || !pkg) {
+    return unfulfilled(session, 'missing user or package metadata');
+  }
+  if (!(await deps.userExists(userId))) {
+    return unfulfilled(session, `unknown user ${userId}`);
+  }
+
+  // Credits come from our package table, not from the session metadata
+  const credited = await deps.addCredits(userId, pkg.credits, {
+    externalId: session.id,
+    description: `${pkg.name} package`,
+  });
+
+  console.log(credited
+    ? `[Stripe] Credited ${pkg.credits} credits to user ${userId} for checkout ${session.id}`
+    : `[Stripe] Checkout ${session.id} was already credited`);
+  return { credited };
+}
@@ -1,7 +1,9 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  experimental: {
+    authInterrupts: true, // forbidden() in app/admin/layout.tsx → real 403 + app/forbidden.tsx
+  },
 };
 
 export default nextConfig;
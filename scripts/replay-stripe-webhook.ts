@@ -0,0 +1,72 @@
+/**
+ * Stripe webhook replay
+ *
+ * Feeds a recorded webhook payload through fulfillment without Stripe's network, so
+ * crediting (and its idempotency - replay the same fixture twice) can be checked locally.
+ *
+ * Usage:
+ *   npm run stripe:replay -- <fixture.json> --user <userId>
+ *     → calls handleStripeEvent directly (needs DATABASE_URL)
+ *   npm run stripe:replay -- <fixture.json> --user <userId> --url http://localhost:3000/api/webhooks/stripe
+ *     → signs the payload with STRIPE_WEBHOOK_SECRET and POSTs it to the running app,
+ *       exercising signature verification too
+ *
+ * Fixtures live in scripts/fixtures/stripe/.
+ */
+
+import { readFileSync } from 'node:fs';
+import Stripe from 'stripe';
+import { handleStripeEvent } from '@/lib/stripe/fulfillment';
+
+function parseArgs(argv: string[]) {
+  const args: { fixture?: string; user?: string; url?: string } = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--user') args.user = argv[++i];
+    else if (argv[i] === '--url') args.url = argv[++i];
+    else args.fixture = argv[i];
+  }
+  return args;
+}
+
+async function main() {
+  const { fixture, user, url } = parseArgs(process.argv.slice(2));
+  if (!fixture) {
+    throw new Error('Usage: npm run stripe:replay -- <fixture.json> [--user <userId>] [--url <webhook url>]');
+  }
+
+  const event = JSON.parse(readFileSync(fixture, 'utf8')) as Stripe.Event;
+
+  // Point the recorded checkout at a local user
+  if (user && event.type.startsWith('checkout.session.')) {
+    const session = event.data.object as Stripe.Checkout.Session;
+    session.client_reference_id = user;
+    session.metadata = { ...session.metadata, userId: user };
+  }
+
+  if (!url) {
+    const result = await handleStripeEvent(event);
+    console.log(`[Replay] ${event.type} (${event.id}):`, result);
+    return;
+  }
+
+  const secret = process.env.STRIPE_WEBHOOK_SECRET;
+  if (!secret) throw new Error('STRIPE_WEBHOOK_SECRET must be set to sign the payload');
+
+  const payload = JSON.stringify(event);
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'stripe-signature': Stripe.webhooks.generateTestHeaderString({ payload, secret }),
+    },
+    body: payload,
+  });
+  console.log(`[Replay] ${event.type} (${event.id}) → ${response.status}`, await response.text());
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(err => {
+    console.error('[Replay] Failed:', err);
+    process.exit(1);
+  });
@@ -0,0 +1,27 @@
+/**
+ * Research worker process
+ *
+ * Runs queued research jobs outside the web server, so a run survives deploys,
+ * serverless timeouts and closed tabs. Pair with RESEARCH_WORKER_MODE=external
+ * on the web server.
+ *
+ * Usage: npm run worker
+ */
+
+import { startWorker } from '@/lib/jobs/worker';
+
+const controller = new AbortController();
+
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => {
+    console.log(`[Worker] ${signal} received, no new jobs will be claimed`);
+    controller.abort();
+  });
+}
+
+startWorker({ signal: controller.signal })
+  .then(() => process.exit(0))
+  .catch(err => {
+    console.error('[Worker] Fatal:', err);
+    process.exit(1);
+  });